@@ -0,0 +1,72 @@
+/**
+ * Compares reading exact percentiles from an order statistic tree with re-sorting the window, as SnapMetrics did
+ * before, and with approximate percentiles. Every iteration records one value, expires the oldest one and reads
+ * the 99th percentile, the worst case for re-sorting since every record invalidates the sorted values.
+ *
+ * Run with `npm run bench`, optionally followed by the window sizes, e.g. `npm run bench -- 1000 10000`.
+ */
+import { SnapMetrics } from "../src/index.js";
+import { calculatePercentile } from "../src/stats.js";
+
+const ITERATIONS = 1000;
+
+const sizes = process.argv.slice(2).map(Number);
+if (!sizes.length) sizes.push(1_000, 10_000, 100_000);
+
+const measure = (run: (iteration: number) => void): number => {
+  const start = performance.now();
+  for (let i = 0; i < ITERATIONS; i++) run(i);
+  return Number(((performance.now() - start) / ITERATIONS).toFixed(4));
+};
+
+/**
+ * Fills a window with a value per millisecond, then moves it forward one millisecond per iteration.
+ */
+const benchmarkSnapMetrics = (
+  size: number,
+  quantiles: "exact" | "approximate"
+): number => {
+  const time = { now: 0 };
+  const sm = new SnapMetrics({
+    timeWindows: ["1h"],
+    quantiles,
+    clock: () => time.now,
+    removeExpiredRecordsThrottlingMS: false,
+  });
+  const durationMS = 60 * 60 * 1000;
+  for (let i = 0; i < size; i++) {
+    time.now = (i * durationMS) / size;
+    sm.record(Math.random() * 1000);
+  }
+
+  return measure(() => {
+    time.now += durationMS / size;
+    sm.record(Math.random() * 1000);
+    sm.getPercentiles(99);
+  });
+};
+
+const benchmarkResorting = (size: number): number => {
+  const values = Array.from({ length: size }, () => Math.random() * 1000);
+
+  return measure(() => {
+    values.shift();
+    values.push(Math.random() * 1000);
+    calculatePercentile(
+      [...values].sort((a, b) => a - b),
+      99
+    );
+  });
+};
+
+const results = sizes.map((size) => ({
+  "window size": size,
+  "re-sorting (ms)": benchmarkResorting(size),
+  "order statistic tree (ms)": benchmarkSnapMetrics(size, "exact"),
+  "approximate (ms)": benchmarkSnapMetrics(size, "approximate"),
+}));
+
+console.log(
+  `Time per record and 99th percentile, over ${ITERATIONS} iterations`
+);
+console.table(results);
@@ -1,25 +1,21 @@
 import express from "express";
-import { SnapMetrics } from "../../dist/index.js";
+import {
+  SnapMetrics,
+  createHttpMiddleware,
+  createMetricsHandler,
+} from "../../dist/index.js";
 
 const app = express();
 const sm = new SnapMetrics();
 
-app.use((req, res, next) => {
-  const startTime = performance.now();
-  res.on("finish", () => {
-    const duration = performance.now() - startTime;
-    sm.record(duration);
-  });
-  next();
-});
+app.use(createHttpMiddleware(sm, { route: true }));
 
 app.get("/", (req, res) => {
   res.send("Hello! <a href=\"/metrics\">See metrics</a>");
 });
 
-app.get("/metrics", (req, res) => {
-  res.json(sm.getMetrics());
-});
+// JSON, Prometheus text or an HTML table, depending on the Accept header
+app.get("/metrics", createMetricsHandler(sm));
 
 app.listen(3000, () => {
   console.log(`Express app listening on port 3000`);
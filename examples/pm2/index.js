@@ -11,15 +11,13 @@ function setupPm2Metrics() {
     pm2Metrics[key] = io.metric({ name: `Response Time (${key})`, unit: "ms" });
   }
 
-  setInterval(() => {
-    const updatedAverages = sm.getAverages();
-
-    for (const key in updatedAverages) {
+  sm.subscribe({ intervalMS: 1000 }, ({ metrics }) => {
+    for (const key in metrics) {
       if (pm2Metrics[key]) {
-        pm2Metrics[key].set(updatedAverages[key]);
+        pm2Metrics[key].set(metrics[key].average);
       }
     }
-  }, 1000);
+  });
 }
 
 setupPm2Metrics();
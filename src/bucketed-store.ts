@@ -0,0 +1,399 @@
+import type { Labels, TimeWindow } from "./index.js";
+import {
+  addToMoments,
+  createMoments,
+  mergeMoments,
+  type Moments,
+} from "./moments.js";
+import { QuantileSketch } from "./sketch.js";
+import type {
+  BucketedStoreSnapshot,
+  SeriesStore,
+  SnapshotRange,
+  StorageEngine,
+  ValueDistribution,
+} from "./storage.js";
+
+/**
+ * Aggregate of the values recorded during one fixed time slice, or combined over several slices.
+ */
+interface Slice {
+  index: number; // Slice number since time 0, i.e. floor(timestamp / bucketDurationMS)
+  count: number;
+  sum: number;
+  moments: Moments; // For the variance and higher statistics, merged across slices without losing precision
+  minimum: number;
+  maximum: number;
+  sketch: QuantileSketch;
+}
+
+interface WindowSlices {
+  firstIndex: number; // Oldest slice index still overlapping the window
+  count: number;
+  sum: number;
+  combined?: Slice; // Cache of the combined slices, invalidated on change
+}
+
+/**
+ * Aggregates values into fixed time slices kept in a ring, so memory does not grow with throughput.
+ * @description The ring covers the longest time window. Each window tracks the oldest slice it overlaps
+ * and keeps running counts and sums; other statistics combine the slices on demand. A window includes
+ * every slice that overlaps it, so it may include up to one slice of older values.
+ */
+export class BucketedSeriesStore implements SeriesStore {
+  private slices: (Slice | undefined)[];
+  private windows: Record<TimeWindow, WindowSlices>;
+  private total = 0; // Values in live slices
+  private liveIndex = -Infinity; // Slices with a lower index were retired, no window overlaps them
+
+  constructor(
+    readonly series: string,
+    readonly labels: Labels,
+    private timeWindowDurations: Record<TimeWindow, number>,
+    private bucketDurationMS: number,
+    private relativeAccuracy: number
+  ) {
+    const longest = Math.max(...Object.values(timeWindowDurations));
+    this.slices = new Array(Math.ceil(longest / bucketDurationMS) + 1);
+    this.windows = Object.fromEntries(
+      Object.keys(timeWindowDurations).map((key) => [
+        key,
+        { firstIndex: -Infinity, count: 0, sum: 0 },
+      ])
+    ) as Record<TimeWindow, WindowSlices>;
+  }
+
+  private getSlot(index: number): number {
+    const length = this.slices.length;
+    return ((index % length) + length) % length;
+  }
+
+  /**
+   * Returns the slice for a timestamp, retiring the older slice held by its ring slot.
+   * @returns The slice, or undefined if the timestamp is older than the ring
+   */
+  private getSlice(timestamp: number): Slice | undefined {
+    const index = Math.floor(timestamp / this.bucketDurationMS);
+    let slice = this.slices[this.getSlot(index)];
+
+    if (index < this.liveIndex) return undefined; // Older than every window
+    if (slice && slice.index !== index) {
+      if (slice.index > index) return undefined; // Older than the ring, nothing can hold it
+      this.removeExpired(timestamp); // Retire the previous slice in this slot
+      resetSlice(slice, index);
+    }
+    if (!slice) {
+      slice = createSlice(index, this.relativeAccuracy);
+      this.slices[this.getSlot(index)] = slice;
+    }
+    return slice;
+  }
+
+  /**
+   * Adds values of a slice to the running totals of the windows it overlaps.
+   */
+  private addToWindows(index: number, count: number, sum: number): void {
+    this.total += count;
+    for (const window of Object.values(this.windows)) {
+      if (index < window.firstIndex) continue;
+      window.count += count;
+      window.sum += sum;
+      delete window.combined;
+    }
+  }
+
+  record(timestamp: number, value: number): void {
+    const slice = this.getSlice(timestamp);
+    if (!slice) return;
+
+    addToSlice(slice, value);
+    this.addToWindows(slice.index, 1, value);
+  }
+
+  /**
+   * Calls a function for every live slice with an index in the given range.
+   * @description A range shorter than the ring only visits the slots of its indices, so expiring the few slices
+   * a window moved past does not scan the whole ring.
+   */
+  private forEachSlice(
+    fromIndex: number,
+    toIndex: number,
+    fn: (slice: Slice) => void
+  ): void {
+    if (toIndex - fromIndex < this.slices.length) {
+      for (let index = fromIndex; index < toIndex; index++) {
+        const slice = this.slices[this.getSlot(index)];
+        if (slice && slice.count > 0 && slice.index === index) fn(slice);
+      }
+      return;
+    }
+
+    for (const slice of this.slices) {
+      if (
+        slice &&
+        slice.count > 0 &&
+        slice.index >= fromIndex &&
+        slice.index < toIndex
+      ) {
+        fn(slice);
+      }
+    }
+  }
+
+  removeExpired(now: number): void {
+    let oldestIndex = Infinity;
+
+    for (const [key, window] of Object.entries(this.windows)) {
+      const duration = this.timeWindowDurations[key as TimeWindow]!;
+      const firstIndex = Math.floor((now - duration) / this.bucketDurationMS);
+      oldestIndex = Math.min(
+        oldestIndex,
+        Math.max(firstIndex, window.firstIndex)
+      );
+      if (firstIndex <= window.firstIndex) continue;
+
+      this.forEachSlice(window.firstIndex, firstIndex, (slice) => {
+        window.count -= slice.count;
+        window.sum -= slice.sum;
+        delete window.combined;
+      });
+      window.firstIndex = firstIndex;
+
+      if (window.count === 0) {
+        window.sum = 0; // Reset the running sum to avoid floating point drift
+      }
+    }
+
+    // Slices older than every window are no longer needed, those before the live index were retired already
+    if (oldestIndex <= this.liveIndex) return;
+    this.forEachSlice(this.liveIndex, oldestIndex, (slice) => {
+      this.total -= slice.count;
+      resetSlice(slice, slice.index);
+    });
+    this.liveIndex = oldestIndex;
+  }
+
+  isEmpty(): boolean {
+    return this.total === 0;
+  }
+
+  getCount(window: TimeWindow): number {
+    return this.windows[window]?.count ?? 0;
+  }
+
+  addWindow(key: TimeWindow, now: number): void {
+    const duration = this.timeWindowDurations[key]!;
+
+    // Grow the ring to cover a new longest window, keeping every live slice in the slot of its index
+    const longest = Math.max(...Object.values(this.timeWindowDurations));
+    const length = Math.ceil(longest / this.bucketDurationMS) + 1;
+    if (length > this.slices.length) {
+      const slices = this.slices;
+      this.slices = new Array(length);
+      for (const slice of slices) {
+        if (slice && slice.count > 0)
+          this.slices[this.getSlot(slice.index)] = slice;
+      }
+    }
+
+    const window: WindowSlices = {
+      firstIndex: Math.floor((now - duration) / this.bucketDurationMS),
+      count: 0,
+      sum: 0,
+    };
+    this.forEachSlice(window.firstIndex, Infinity, (slice) => {
+      window.count += slice.count;
+      window.sum += slice.sum;
+    });
+    this.windows[key] = window;
+    this.liveIndex = Math.min(this.liveIndex, window.firstIndex); // A longer window overlaps older slices
+  }
+
+  removeWindow(key: TimeWindow): void {
+    delete this.windows[key];
+  }
+
+  toSnapshot(now: number, range?: SnapshotRange): BucketedStoreSnapshot {
+    const slices: BucketedStoreSnapshot["slices"] = [];
+    const [fromIndex, toIndex] = range
+      ? [
+          Math.ceil(range.since / this.bucketDurationMS),
+          Math.ceil(range.until / this.bucketDurationMS),
+        ]
+      : [-Infinity, Infinity];
+    this.forEachSlice(fromIndex, toIndex, (slice) =>
+      slices.push({
+        age: now - (slice.index + 0.5) * this.bucketDurationMS,
+        count: slice.count,
+        sum: slice.sum,
+        mean: slice.moments.mean,
+        m2: slice.moments.m2,
+        m3: slice.moments.m3,
+        m4: slice.moments.m4,
+        minimum: slice.minimum,
+        maximum: slice.maximum,
+        sketch: slice.sketch.toSnapshot(),
+      })
+    );
+    return { slices: slices.sort((a, b) => b.age - a.age) };
+  }
+
+  load(snapshot: BucketedStoreSnapshot, now: number): void {
+    for (const { age, count, sum, mean, m2, m3, m4, ...rest } of snapshot.slices) {
+      const slice = this.getSlice(now - age);
+      if (!slice) continue;
+
+      mergeSlice(slice, {
+        index: slice.index,
+        count,
+        sum,
+        moments: { count, mean, m2, m3, m4 },
+        minimum: rest.minimum,
+        maximum: rest.maximum,
+        sketch: QuantileSketch.fromSnapshot(rest.sketch),
+      });
+      this.addToWindows(slice.index, count, sum);
+    }
+  }
+
+  /**
+   * Returns the combination of all slices overlapping a window.
+   * @param windowKey - The time window key
+   */
+  getCombinedSlice(windowKey: TimeWindow): Slice | undefined {
+    const window = this.windows[windowKey];
+    if (!window || window.count === 0) return undefined;
+
+    if (!window.combined) {
+      const combined = createSlice(window.firstIndex, this.relativeAccuracy);
+      this.forEachSlice(window.firstIndex, Infinity, (slice) =>
+        mergeSlice(combined, slice)
+      );
+      window.combined = combined;
+    }
+    return window.combined;
+  }
+}
+
+const createSlice = (index: number, relativeAccuracy: number): Slice => ({
+  index,
+  count: 0,
+  sum: 0,
+  moments: createMoments(),
+  minimum: Infinity,
+  maximum: -Infinity,
+  sketch: new QuantileSketch(relativeAccuracy),
+});
+
+const resetSlice = (slice: Slice, index: number): void => {
+  slice.index = index;
+  slice.count = 0;
+  slice.sum = 0;
+  slice.moments = createMoments();
+  slice.minimum = Infinity;
+  slice.maximum = -Infinity;
+  slice.sketch.clear();
+};
+
+const addToSlice = (slice: Slice, value: number): void => {
+  slice.count++;
+  slice.sum += value;
+  addToMoments(slice.moments, value);
+  slice.minimum = Math.min(slice.minimum, value);
+  slice.maximum = Math.max(slice.maximum, value);
+  slice.sketch.add(value);
+};
+
+const mergeSlice = (target: Slice, source: Slice): void => {
+  target.count += source.count;
+  target.sum += source.sum;
+  mergeMoments(target.moments, source.moments);
+  target.minimum = Math.min(target.minimum, source.minimum);
+  target.maximum = Math.max(target.maximum, source.maximum);
+  target.sketch.merge(source.sketch);
+};
+
+/**
+ * Distribution of the values held by bucketed stores within a window.
+ * @description Counts, sums, minimums, maximums, standard deviations and higher moments are exact for the included slices,
+ * percentiles and histogram bucket counts are estimated by the slices' quantile sketches.
+ */
+class BucketedDistribution implements ValueDistribution {
+  count: number;
+  sum: number;
+  private slice: Slice | undefined;
+
+  constructor(slices: Slice[], relativeAccuracy: number) {
+    if (slices.length === 1) {
+      this.slice = slices[0];
+    } else if (slices.length > 1) {
+      this.slice = createSlice(0, relativeAccuracy);
+      slices.forEach((slice) => mergeSlice(this.slice!, slice));
+    }
+    this.count = this.slice?.count ?? 0;
+    this.sum = this.slice?.sum ?? 0;
+  }
+
+  getMinimum(): number | null {
+    return this.slice ? this.slice.minimum : null;
+  }
+
+  getMaximum(): number | null {
+    return this.slice ? this.slice.maximum : null;
+  }
+
+  getPercentile(percentile: number): number | null {
+    if (!this.slice) return null;
+    if (percentile === 0) return this.slice.minimum;
+    if (percentile === 100) return this.slice.maximum;
+    const estimate = this.slice.sketch.getQuantile(percentile / 100)!;
+    return Math.min(Math.max(estimate, this.slice.minimum), this.slice.maximum);
+  }
+
+  getCumulativeCounts(bounds: number[]): number[] {
+    return bounds.map((bound) => {
+      if (!this.slice || bound < this.slice.minimum) return 0;
+      if (bound >= this.slice.maximum) return this.slice.count;
+      return this.slice.sketch.getRank(bound);
+    });
+  }
+
+  getSortedValues(): null {
+    return null; // Slices only keep aggregates
+  }
+
+  getMoments(): Moments {
+    return this.slice?.moments ?? createMoments();
+  }
+}
+
+/**
+ * Creates the storage engine aggregating values into fixed time slices.
+ * @param timeWindowDurations Duration in milliseconds of each time window
+ * @param bucketDurationMS Duration in milliseconds of each time slice
+ * @param relativeAccuracy Relative accuracy of the percentile sketches
+ */
+export const createBucketedStorage = (
+  timeWindowDurations: Record<TimeWindow, number>,
+  bucketDurationMS: number,
+  relativeAccuracy: number
+): StorageEngine => ({
+  createStore: (series, labels) =>
+    new BucketedSeriesStore(
+      series,
+      labels,
+      timeWindowDurations,
+      bucketDurationMS,
+      relativeAccuracy
+    ),
+  combine: (stores, window) =>
+    new BucketedDistribution(
+      (stores as BucketedSeriesStore[]).flatMap(
+        (store) => store.getCombinedSlice(window) ?? []
+      ),
+      relativeAccuracy
+    ),
+  // Only completed slices can be part of a range, the current one still changes
+  getSnapshotCursor: (now) =>
+    Math.floor(now / bucketDurationMS) * bucketDurationMS,
+});
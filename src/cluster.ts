@@ -0,0 +1,167 @@
+import { randomUUID } from "node:crypto";
+import {
+  SnapMetrics,
+  type Snapshot,
+  type SnapMetricsOptions,
+  type TimeWindow,
+} from "./index.js";
+import { parseTimeWindow, reportError } from "./utils.js";
+
+/**
+ * Type of the messages sent by a reporter, to tell them apart from other messages on the same channel.
+ */
+const MESSAGE_TYPE = "snapmetrics:delta";
+
+/**
+ * Message carrying the values, counter events and gauge changes a worker recorded since its previous message.
+ */
+export interface MetricsMessage {
+  type: typeof MESSAGE_TYPE;
+  reporter: string; // Random id of the reporter, different for every worker process or restart
+  seq: number; // Sequence number of the message, starting at 1
+  snapshot: Snapshot; // Delta snapshot
+}
+
+export interface MetricsReporterOptions {
+  intervalMS?: number; // How often deltas are sent, in milliseconds. Defaults to 1000.
+  send?: (message: MetricsMessage) => void; // Defaults to `process.send`, the IPC channel of cluster workers.
+}
+
+export interface MetricsReporter {
+  flush(): void; // Sends the values recorded since the previous message right away
+  stop(): void; // Stops sending, after a final flush
+}
+
+export interface MetricsAggregatorOptions {
+  onError?: (error: unknown) => void; // Called when a message cannot be merged. Defaults to emitting a process warning.
+}
+
+export interface MetricsAggregator {
+  readonly metrics: SnapMetrics; // Instance holding the metrics of all workers
+  handleMessage(message: unknown): boolean; // Merges a reporter's message, returns false for other messages
+}
+
+/**
+ * Checks whether a message was sent by a reporter.
+ * @param message Any message received from a worker
+ * @returns True if the message is a reporter's message
+ */
+const isMetricsMessage = (message: unknown): message is MetricsMessage =>
+  typeof message === "object" &&
+  message !== null &&
+  "type" in message &&
+  message.type === MESSAGE_TYPE;
+
+/**
+ * Starts sending periodic deltas of a worker's metrics to the primary process.
+ * @description Every message holds only what was recorded since the previous one, so the primary can add it up
+ * without counting anything twice. By default, messages are sent over the IPC channel of `node:cluster` workers
+ * and forked processes; pass `send` to use a `worker_threads` port instead. The interval timer does not keep the
+ * process alive. Call `stop()` before a graceful exit to send the last values.
+ * @param metrics The worker's instance
+ * @param options Configuration options
+ * @param options.intervalMS How often deltas are sent, in milliseconds. Defaults to 1000.
+ * @param options.send Function sending a message to the primary. Defaults to `process.send`.
+ * @returns Reporter that can be flushed and stopped
+ * @throws {Error} If no send function is given and the process has no IPC channel.
+ * @example
+ * // In a cluster worker
+ * const metrics = new SnapMetrics();
+ * createMetricsReporter(metrics);
+ *
+ * // In a worker thread
+ * createMetricsReporter(metrics, { send: (message) => parentPort.postMessage(message) });
+ */
+export const createMetricsReporter = (
+  metrics: SnapMetrics,
+  { intervalMS = 1000, send }: MetricsReporterOptions = {}
+): MetricsReporter => {
+  if (!send) {
+    if (!process.send) {
+      throw new Error("No IPC channel to send metrics over");
+    }
+    send = (message) => {
+      if (process.connected) process.send!(message);
+    };
+  }
+  const sendMessage = send;
+
+  const reporter = randomUUID();
+  let seq = 0;
+  let cursor = -Infinity;
+
+  const flush = () => {
+    const snapshot = metrics.toSnapshot({ since: cursor });
+    cursor = snapshot.cursor ?? cursor;
+    sendMessage({ type: MESSAGE_TYPE, reporter, seq: ++seq, snapshot });
+  };
+
+  const timer = setInterval(flush, intervalMS);
+  timer.unref?.();
+
+  return {
+    flush,
+    stop: () => {
+      clearInterval(timer);
+      flush();
+    },
+  };
+};
+
+/**
+ * Creates an aggregator adding up the deltas sent by the reporters of all workers.
+ * @description Messages from the same reporter that are received twice or out of order are ignored. When a
+ * worker dies, the values it already sent stay until they expire; a restarted worker reports under a new id.
+ * Reporters that sent nothing for longer than the longest time window are forgotten, so the ids of exited workers
+ * are not kept forever; anything such a reporter sent before has expired by then. A message that cannot be
+ * merged, e.g. with a malformed snapshot, is passed to `onError` instead of throwing from the message handler. The
+ * aggregator's time windows and storage options must match those of the workers. Gauges hold the value set last by
+ * any worker, so label them with a worker id to keep them apart.
+ * @param timeWindowsOrOptions Time windows or options of the aggregated instance, as for the SnapMetrics constructor
+ * @param options Configuration options
+ * @param options.onError Called with the error of a message that cannot be merged. Defaults to emitting a process
+ * warning.
+ * @returns Aggregator with the combined instance and a message handler
+ * @example
+ * // In the primary process
+ * const aggregator = createMetricsAggregator();
+ * cluster.on("message", (worker, message) => aggregator.handleMessage(message));
+ * aggregator.metrics.getMetrics(); // Metrics of all workers together
+ */
+export const createMetricsAggregator = (
+  timeWindowsOrOptions?: TimeWindow[] | SnapMetricsOptions,
+  { onError }: MetricsAggregatorOptions = {}
+): MetricsAggregator => {
+  const metrics = new SnapMetrics(timeWindowsOrOptions);
+  // Maps reporter ids to the last merged sequence number and when it was received, least recently heard first
+  const reporters = new Map<string, { seq: number; receivedAt: number }>();
+
+  return {
+    metrics,
+    handleMessage: (message) => {
+      if (!isMetricsMessage(message)) return false;
+
+      const { reporter, seq, snapshot } = message;
+      if (seq <= (reporters.get(reporter)?.seq ?? 0)) return true; // Already merged
+
+      try {
+        metrics.merge(snapshot);
+      } catch (error) {
+        reportError(error, onError);
+        return true;
+      }
+      const now = Date.now();
+      reporters.delete(reporter); // Move it to the end
+      reporters.set(reporter, { seq, receivedAt: now });
+
+      const longest = Math.max(
+        ...snapshot.options.timeWindows.map(parseTimeWindow)
+      );
+      for (const [id, { receivedAt }] of reporters) {
+        if (now - receivedAt <= longest) break;
+        reporters.delete(id);
+      }
+      return true;
+    },
+  };
+};
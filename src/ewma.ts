@@ -0,0 +1,68 @@
+import type { TimeWindow } from "./index.js";
+
+/**
+ * Decayed number and sum of the values added so far.
+ */
+export interface DecayedTotals {
+  weight: number; // Each value counts 1 when added, halving every half-life
+  sum: number; // Values multiplied by their weight
+}
+
+/**
+ * Exponentially decaying totals of the values of a series or the amounts of a counter, one per half-life.
+ * @description A value weighs half as much one half-life after it was added, so the totals follow recent values
+ * without keeping any of them, and without the cliff of a burst leaving a time window. The totals are decayed
+ * lazily when values are added or read, so each half-life costs two numbers regardless of throughput.
+ */
+export class DecayingTotals {
+  private totals = new Map<TimeWindow, DecayedTotals>();
+  private updatedAt: number; // Time the totals were last decayed to
+
+  constructor(
+    private halfLives: Record<TimeWindow, number>,
+    now: number
+  ) {
+    for (const key of Object.keys(halfLives)) {
+      this.totals.set(key as TimeWindow, { weight: 0, sum: 0 });
+    }
+    this.updatedAt = now;
+  }
+
+  /**
+   * Time of the latest value, or of the creation if none was added since.
+   */
+  get lastUpdate(): number {
+    return this.updatedAt;
+  }
+
+  private decay(halfLife: TimeWindow, elapsed: number): number {
+    return Math.pow(0.5, Math.max(elapsed, 0) / this.halfLives[halfLife]!);
+  }
+
+  /**
+   * Adds a value. A value earlier than the latest one is added with the weight it has decayed to since.
+   */
+  add(timestamp: number, value: number): void {
+    const elapsed = timestamp - this.updatedAt;
+    for (const [key, totals] of this.totals) {
+      const factor = this.decay(key, Math.abs(elapsed));
+      if (elapsed > 0) {
+        totals.weight = totals.weight * factor + 1;
+        totals.sum = totals.sum * factor + value;
+      } else {
+        totals.weight += factor;
+        totals.sum += value * factor;
+      }
+    }
+    this.updatedAt = Math.max(this.updatedAt, timestamp);
+  }
+
+  /**
+   * Returns the totals of a half-life, decayed to the current time.
+   */
+  get(halfLife: TimeWindow, now: number): DecayedTotals {
+    const { weight, sum } = this.totals.get(halfLife)!;
+    const factor = this.decay(halfLife, now - this.updatedAt);
+    return { weight: weight * factor, sum: sum * factor };
+  }
+}
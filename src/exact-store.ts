@@ -0,0 +1,286 @@
+import type { Labels, TimeWindow } from "./index.js";
+import {
+  addToMoments,
+  createMoments,
+  mergeMoments,
+  removeFromMoments,
+  type Moments,
+} from "./moments.js";
+import { OrderStatisticTree } from "./order-tree.js";
+import { QuantileSketch } from "./sketch.js";
+import {
+  calculatePercentile,
+  interpolatePercentile,
+  calculateMinimum,
+  calculateMaximum,
+  calculateCumulativeCounts,
+} from "./stats.js";
+import type {
+  ExactStoreSnapshot,
+  SeriesStore,
+  SnapshotRange,
+  StorageEngine,
+  ValueDistribution,
+} from "./storage.js";
+import { SampleLog } from "./sample-log.js";
+
+interface ValueMetrics {
+  sum: number;
+  count: number;
+  moments: Moments; // Running moments for the variance and higher statistics
+  sorted?: OrderStatisticTree; // Values in increasing order, built when percentiles are first read, then kept in sync
+  sketch?: QuantileSketch; // Approximate quantiles, kept in sync with the window when enabled
+}
+
+/**
+ * Keeps every recorded value in one sample log shared by the time windows, giving exact statistics.
+ * @description Each window only keeps its running sum and count, so adding windows costs no extra copies of
+ * the values. The first time percentiles of a window are read, its values are put in an order statistic tree,
+ * which is then updated as values are recorded and expire, so later percentiles are read in logarithmic time
+ * instead of sorting the window. A tree costs a node per distinct value, so only windows whose percentiles are
+ * read pay for one. When a quantile accuracy is given, a quantile sketch estimates percentiles instead.
+ */
+export class ExactSeriesStore implements SeriesStore {
+  readonly windows: Record<TimeWindow, ValueMetrics>;
+  private log: SampleLog<{ timestamp: number; value: number }>;
+
+  constructor(
+    readonly series: string,
+    readonly labels: Labels,
+    timeWindowDurations: Record<TimeWindow, number>,
+    private quantileAccuracy?: number
+  ) {
+    this.log = new SampleLog(timeWindowDurations);
+    this.windows = Object.fromEntries(
+      Object.keys(timeWindowDurations).map((key) => [key, this.createWindow()])
+    ) as Record<TimeWindow, ValueMetrics>;
+  }
+
+  private createWindow(): ValueMetrics {
+    return {
+      sum: 0,
+      count: 0,
+      moments: createMoments(),
+      ...(this.quantileAccuracy !== undefined && {
+        sketch: new QuantileSketch(this.quantileAccuracy),
+      }),
+    };
+  }
+
+  private addValue(window: ValueMetrics, value: number): void {
+    window.sum += value;
+    window.count++;
+    addToMoments(window.moments, value);
+    window.sorted?.insert(value);
+    window.sketch?.add(value);
+  }
+
+  record(timestamp: number, value: number): void {
+    for (const key of this.log.insert({ timestamp, value })) {
+      this.addValue(this.windows[key]!, value);
+    }
+  }
+
+  removeExpired(now: number): void {
+    this.log.removeExpired(now, (key, { value }) => {
+      const window = this.windows[key]!;
+      window.sum -= value;
+      window.count--;
+      removeFromMoments(window.moments, value);
+      window.sorted?.remove(value);
+      window.sketch?.remove(value);
+    });
+  }
+
+  isEmpty(): boolean {
+    return this.log.length === 0;
+  }
+
+  getCount(window: TimeWindow): number {
+    return this.windows[window]?.count ?? 0;
+  }
+
+  addWindow(key: TimeWindow, now: number): void {
+    const window = this.createWindow();
+    for (const { value } of this.log.addWindow(key, now)) {
+      this.addValue(window, value);
+    }
+    this.windows[key] = window;
+  }
+
+  removeWindow(key: TimeWindow): void {
+    this.log.removeWindow(key);
+    delete this.windows[key];
+  }
+
+  toSnapshot(now: number, range?: SnapshotRange): ExactStoreSnapshot {
+    // Walk back from the newest value, so a range only visits the values it includes
+    const values: ExactStoreSnapshot["values"] = [];
+    for (let i = this.log.length - 1; i >= 0; i--) {
+      const { timestamp, value } = this.log.peekAt(i)!;
+      if (range && timestamp < range.since) break;
+      if (range && timestamp >= range.until) continue;
+      values.push([now - timestamp, value]);
+    }
+    return { values: values.reverse() };
+  }
+
+  load(snapshot: ExactStoreSnapshot, now: number): void {
+    for (const [age, value] of snapshot.values) {
+      this.record(now - age, value);
+    }
+  }
+
+  /**
+   * Gets the tree of a window's values, building it from the log the first time.
+   * @param windowKey - The time window key
+   * @param build - Whether to build the tree if the window has none yet
+   * @returns The tree, or undefined with approximate quantiles or when it was not built
+   */
+  getTree(
+    windowKey: TimeWindow,
+    build: boolean
+  ): OrderStatisticTree | undefined {
+    const window = this.windows[windowKey];
+    if (window && !window.sketch && !window.sorted && build) {
+      window.sorted = new OrderStatisticTree();
+      for (const { value } of this.log.getSamples(windowKey)) {
+        window.sorted.insert(value);
+      }
+    }
+    return window?.sorted;
+  }
+
+  /**
+   * Gets the values of a window, oldest first.
+   * @param windowKey - The time window key
+   */
+  getValues(windowKey: TimeWindow): number[] {
+    if (!this.windows[windowKey]?.count) return [];
+    return this.log.getSamples(windowKey).map((v) => v.value);
+  }
+}
+
+/**
+ * Distribution of the values held by exact stores within a window.
+ * @description Percentiles and sorted values of a single store are read from its tree in logarithmic time. Those
+ * of several stores, e.g. label sets matched by a filter, flatten and sort the values of every tree instead.
+ */
+class ExactDistribution implements ValueDistribution {
+  count = 0;
+  sum = 0;
+
+  constructor(
+    private stores: ExactSeriesStore[],
+    private window: TimeWindow
+  ) {
+    for (const store of stores) {
+      const values = store.windows[window];
+      if (!values) continue;
+      this.count += values.count;
+      this.sum += values.sum;
+    }
+  }
+
+  /**
+   * Gets the values of all stores.
+   */
+  private getValues(): number[] {
+    return this.stores.flatMap((store) => store.getValues(this.window));
+  }
+
+  /**
+   * Gets the sorted values of every store, or undefined if percentiles are approximate.
+   * @param build - Whether to build the trees of stores that have none yet. Otherwise, undefined is also returned
+   * when a store has no tree, and the values are read from the log instead.
+   */
+  private getTrees(build = false): OrderStatisticTree[] | undefined {
+    const trees = this.stores.flatMap(
+      (store) => store.getTree(this.window, build) ?? []
+    );
+    return trees.length === this.stores.length ? trees : undefined;
+  }
+
+  getMinimum(): number | null {
+    const trees = this.getTrees();
+    if (!trees) return calculateMinimum(this.getValues());
+    return calculateMinimum(trees.flatMap((tree) => tree.getMinimum() ?? []));
+  }
+
+  getMaximum(): number | null {
+    const trees = this.getTrees();
+    if (!trees) return calculateMaximum(this.getValues());
+    return calculateMaximum(trees.flatMap((tree) => tree.getMaximum() ?? []));
+  }
+
+  getPercentile(percentile: number): number | null {
+    const sketches = this.stores.flatMap(
+      (store) => store.windows[this.window]?.sketch ?? []
+    );
+    if (!sketches.length) {
+      const trees = this.getTrees(true);
+      if (trees?.length === 1) {
+        // Only the values next to the percentile are visited
+        const tree = trees[0]!;
+        return interpolatePercentile(
+          tree.size,
+          (rank) => tree.select(rank)!,
+          percentile
+        );
+      }
+      return calculatePercentile(this.getSortedValues(), percentile);
+    }
+
+    // Approximate quantiles: the extremes are still exact
+    if (percentile === 0) return this.getMinimum();
+    if (percentile === 100) return this.getMaximum();
+
+    const sketch = sketches.length === 1 ? sketches[0]! : sketches[0]!.clone();
+    sketches.slice(1).forEach((other) => sketch.merge(other));
+    return sketch.getQuantile(percentile / 100);
+  }
+
+  getSortedValues(): number[] {
+    const trees = this.getTrees(true);
+    if (trees?.length === 1) return trees[0]!.toArray();
+    const values = trees
+      ? trees.flatMap((tree) => tree.toArray())
+      : this.getValues();
+    return values.sort((a, b) => a - b);
+  }
+
+  getCumulativeCounts(bounds: number[]): number[] {
+    const trees = this.getTrees();
+    if (!trees) return calculateCumulativeCounts(this.getValues(), bounds);
+    return bounds.map((bound) =>
+      trees.reduce((count, tree) => count + tree.countAtMost(bound), 0)
+    );
+  }
+
+  getMoments(): Moments {
+    const moments = this.stores.flatMap(
+      (store) => store.windows[this.window]?.moments ?? []
+    );
+    if (moments.length === 1) return moments[0]!;
+
+    const combined = createMoments();
+    moments.forEach((other) => mergeMoments(combined, other));
+    return combined;
+  }
+}
+
+/**
+ * Creates the storage engine keeping every value, for exact statistics.
+ * @param timeWindowDurations Duration in milliseconds of each time window
+ * @param quantileAccuracy Relative accuracy of approximate percentiles, or undefined for exact percentiles
+ */
+export const createExactStorage = (
+  timeWindowDurations: Record<TimeWindow, number>,
+  quantileAccuracy?: number
+): StorageEngine => ({
+  createStore: (series, labels) =>
+    new ExactSeriesStore(series, labels, timeWindowDurations, quantileAccuracy),
+  combine: (stores, window) =>
+    new ExactDistribution(stores as ExactSeriesStore[], window),
+  getSnapshotCursor: (now) => now,
+});
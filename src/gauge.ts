@@ -0,0 +1,104 @@
+import Denque from "denque";
+import type { SnapshotRange } from "./storage.js";
+import { insertByTimestamp } from "./utils.js";
+
+/**
+ * Statistics of a gauge within a time window.
+ */
+export interface GaugeStats {
+  latest: number; // Current value
+  minimum: number; // Lowest value held during the window
+  maximum: number; // Highest value held during the window
+  average: number; // Average weighted by how long each value was held
+}
+
+/**
+ * Keeps the value changes of a gauge over the longest time window.
+ * @description The change in effect when the longest window starts is kept too, so every window knows the
+ * value it starts with. A gauge keeps its latest value after all of its changes expire.
+ */
+export class Gauge {
+  private changes = new Denque<{ timestamp: number; value: number }>(); // Oldest first
+
+  get latest(): number {
+    return this.changes.peekBack()?.value ?? 0;
+  }
+
+  set(timestamp: number, value: number): void {
+    if (!this.changes.isEmpty() && this.latest === value) return; // Nothing changes
+    this.changes.push({ timestamp, value });
+  }
+
+  /**
+   * Returns the changes as `[age, value]` pairs relative to now, oldest first.
+   * @param now Current time in milliseconds
+   * @param range Only include the changes made within this range
+   */
+  toSnapshot(
+    now: number,
+    range?: SnapshotRange
+  ): [age: number, value: number][] {
+    const changes: [age: number, value: number][] = [];
+    for (let i = this.changes.length - 1; i >= 0; i--) {
+      const { timestamp, value } = this.changes.peekAt(i)!;
+      if (range && timestamp < range.since) break;
+      if (range && timestamp >= range.until) continue;
+      changes.push([now - timestamp, value]);
+    }
+    return changes.reverse();
+  }
+
+  /**
+   * Adds the changes of a snapshot taken at now, in time order with the changes already held.
+   */
+  load(changes: [age: number, value: number][], now: number): void {
+    for (const [age, value] of changes) {
+      insertByTimestamp(this.changes, { timestamp: now - age, value });
+    }
+  }
+
+  removeExpired(now: number, longestDuration: number): void {
+    const start = now - longestDuration;
+    while (
+      this.changes.length > 1 &&
+      this.changes.peekAt(1)!.timestamp <= start
+    ) {
+      this.changes.shift();
+    }
+  }
+
+  /**
+   * Calculates the statistics of a time window.
+   * @param now Current time in milliseconds
+   * @param duration Duration of the window in milliseconds
+   * @returns Statistics of the window. The average covers the part of the window since the gauge was first set,
+   * and is the latest value if no time has passed since.
+   */
+  getStats(now: number, duration: number): GaugeStats {
+    const start = now - duration;
+    let minimum = Infinity;
+    let maximum = -Infinity;
+    let weightedSum = 0;
+    let from: number | undefined; // Start of the time covered by the gauge within the window
+
+    for (let i = 0; i < this.changes.length; i++) {
+      const { timestamp, value } = this.changes.peekAt(i)!;
+      const until = this.changes.peekAt(i + 1)?.timestamp ?? now;
+      if (until <= start && i < this.changes.length - 1) continue; // Replaced before the window
+
+      const heldFrom = Math.max(timestamp, start);
+      from ??= heldFrom;
+      minimum = Math.min(minimum, value);
+      maximum = Math.max(maximum, value);
+      weightedSum += value * (until - heldFrom);
+    }
+
+    const elapsed = now - (from ?? now);
+    return {
+      latest: this.latest,
+      minimum,
+      maximum,
+      average: elapsed > 0 ? weightedSum / elapsed : this.latest,
+    };
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Generates bucket bounds that are evenly spaced.
+ * @param start The first bucket bound
+ * @param width Distance between consecutive bounds, must be positive
+ * @param count Number of bounds to generate, must be a positive integer
+ * @returns Bucket bounds in increasing order
+ * @throws {Error} If width is not positive or count is not a positive integer.
+ * @example
+ * linearBuckets(10, 10, 5); // [10, 20, 30, 40, 50]
+ */
+export const linearBuckets = (
+  start: number,
+  width: number,
+  count: number
+): number[] => {
+  if (!(width > 0)) {
+    throw new Error("Bucket width must be a positive number");
+  }
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error("Bucket count must be a positive integer");
+  }
+  return Array.from({ length: count }, (_, i) => start + i * width);
+};
+
+/**
+ * Generates bucket bounds that grow by a constant factor.
+ * @param start The first bucket bound, must be positive
+ * @param factor Ratio between consecutive bounds, must be greater than 1
+ * @param count Number of bounds to generate, must be a positive integer
+ * @returns Bucket bounds in increasing order
+ * @throws {Error} If start is not positive, factor is not greater than 1 or count is not a positive integer.
+ * @example
+ * exponentialBuckets(1, 2, 5); // [1, 2, 4, 8, 16]
+ */
+export const exponentialBuckets = (
+  start: number,
+  factor: number,
+  count: number
+): number[] => {
+  if (!(start > 0)) {
+    throw new Error("Bucket start must be a positive number");
+  }
+  if (!(factor > 1)) {
+    throw new Error("Bucket factor must be greater than 1");
+  }
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error("Bucket count must be a positive integer");
+  }
+  return Array.from({ length: count }, (_, i) => start * Math.pow(factor, i));
+};
@@ -0,0 +1,205 @@
+import type { Labels } from "./index.js";
+import { QuantileSketch } from "./sketch.js";
+import { matchLabels, parseSeriesKey } from "./utils.js";
+
+export type PeriodAlignment = "clock" | "start";
+
+/**
+ * Statistics of one completed tumbling period.
+ */
+export interface PeriodSummary {
+  start: number; // Start of the period, inclusive
+  end: number; // End of the period, exclusive
+  count: number;
+  sum: number;
+  average: number | null;
+  median: number | null;
+  minimum: number | null;
+  maximum: number | null;
+  [percentile: `percentile${number}`]: number | null;
+  counters: Record<string, number>; // Counter totals of the period, summed across label sets
+}
+
+/**
+ * Values of one series and label set recorded during a period.
+ */
+interface PeriodValues {
+  count: number;
+  sum: number;
+  minimum: number;
+  maximum: number;
+  sketch: QuantileSketch;
+}
+
+interface PeriodData {
+  series: Map<string, PeriodValues>; // Maps series keys (name and labels) to their values
+  counters: Map<string, number>; // Maps counter keys (name and labels) to their totals
+}
+
+/**
+ * Keeps the values and counter events of the most recent tumbling periods of one duration.
+ * @description Periods are numbered from an origin, either time 0 of the wall clock (so minutes start on the
+ * minute) or the creation of the instance. Only periods that received values are stored. Percentiles are
+ * estimated with a quantile sketch per period, so every period costs the same regardless of throughput.
+ */
+export class PeriodHistory {
+  private periods = new Map<number, PeriodData>(); // Maps period indices to their data
+  private latestIndex = -Infinity; // Index of the most recent period seen
+
+  constructor(
+    private duration: number,
+    private length: number, // Completed periods kept
+    private origin: number, // Start of period 0 on the instance's clock
+    private wallOffset: number, // Added to the clock to report period bounds
+    private relativeAccuracy: number
+  ) {}
+
+  private getIndex(timestamp: number): number {
+    return Math.floor((timestamp - this.origin) / this.duration);
+  }
+
+  /**
+   * Returns the data of the period holding a timestamp, dropping periods that fell out of the history.
+   * @returns The period's data, or undefined if the period is no longer kept
+   */
+  private getPeriod(timestamp: number): PeriodData | undefined {
+    const index = this.getIndex(timestamp);
+    this.advance(index);
+    if (index < this.latestIndex - this.length) return undefined;
+
+    let period = this.periods.get(index);
+    if (!period) {
+      period = { series: new Map(), counters: new Map() };
+      this.periods.set(index, period);
+    }
+    return period;
+  }
+
+  /**
+   * Moves the history forward to a period, dropping the periods that fall out of it.
+   */
+  private advance(currentIndex: number): void {
+    if (currentIndex <= this.latestIndex) return;
+    this.latestIndex = currentIndex;
+    for (const index of this.periods.keys()) {
+      if (index < currentIndex - this.length) this.periods.delete(index);
+    }
+  }
+
+  record(seriesKey: string, timestamp: number, value: number): void {
+    const period = this.getPeriod(timestamp);
+    if (!period) return;
+
+    let values = period.series.get(seriesKey);
+    if (!values) {
+      values = {
+        count: 0,
+        sum: 0,
+        minimum: Infinity,
+        maximum: -Infinity,
+        sketch: new QuantileSketch(this.relativeAccuracy),
+      };
+      period.series.set(seriesKey, values);
+    }
+    values.count++;
+    values.sum += value;
+    values.minimum = Math.min(values.minimum, value);
+    values.maximum = Math.max(values.maximum, value);
+    values.sketch.add(value);
+  }
+
+  increment(counterKey: string, timestamp: number, value: number): void {
+    const period = this.getPeriod(timestamp);
+    if (!period) return;
+    period.counters.set(
+      counterKey,
+      (period.counters.get(counterKey) ?? 0) + value
+    );
+  }
+
+  /**
+   * Summarizes the most recent completed periods of a series.
+   * @param now Current time on the instance's clock
+   * @param count Number of periods, at most the length of the history
+   * @param series Series name
+   * @param labels Only include label sets of the series containing all of these labels
+   * @param percentiles Percentiles to estimate (0-100)
+   * @returns Summaries of the periods, oldest first, including periods without values
+   */
+  getSummaries(
+    now: number,
+    count: number,
+    series: string,
+    labels: Labels,
+    percentiles: number[]
+  ): PeriodSummary[] {
+    const currentIndex = this.getIndex(now);
+    this.advance(currentIndex);
+
+    const summaries: PeriodSummary[] = [];
+    const firstIndex = currentIndex - Math.min(count, this.length);
+    for (let index = firstIndex; index < currentIndex; index++) {
+      const start = this.origin + index * this.duration + this.wallOffset;
+      summaries.push({
+        start,
+        end: start + this.duration,
+        ...summarize(this.periods.get(index), series, labels, percentiles),
+      });
+    }
+    return summaries;
+  }
+}
+
+/**
+ * Combines the values of the matching label sets of a period and calculates their statistics.
+ */
+const summarize = (
+  period: PeriodData | undefined,
+  series: string,
+  labels: Labels,
+  percentiles: number[]
+): Omit<PeriodSummary, "start" | "end"> => {
+  let count = 0;
+  let sum = 0;
+  let minimum = Infinity;
+  let maximum = -Infinity;
+  let sketch: QuantileSketch | undefined;
+
+  for (const [seriesKey, values] of period?.series ?? []) {
+    const key = parseSeriesKey(seriesKey);
+    if (key.name !== series || !matchLabels(key.labels, labels)) continue;
+    count += values.count;
+    sum += values.sum;
+    minimum = Math.min(minimum, values.minimum);
+    maximum = Math.max(maximum, values.maximum);
+    if (!sketch) sketch = values.sketch.clone();
+    else sketch.merge(values.sketch);
+  }
+
+  const getPercentile = (percentile: number): number | null => {
+    if (!sketch) return null;
+    // The extremes are exact
+    if (percentile === 0) return minimum;
+    if (percentile === 100) return maximum;
+    return sketch.getQuantile(percentile / 100);
+  };
+
+  const counters: Record<string, number> = {};
+  for (const [counterKey, total] of period?.counters ?? []) {
+    const { name } = parseSeriesKey(counterKey);
+    counters[name] = (counters[name] ?? 0) + total;
+  }
+
+  return {
+    count,
+    sum,
+    average: count > 0 ? sum / count : null,
+    median: getPercentile(50),
+    ...Object.fromEntries(
+      percentiles.map((p) => [`percentile${p}`, getPercentile(p)])
+    ),
+    minimum: sketch ? minimum : null,
+    maximum: sketch ? maximum : null,
+    counters,
+  };
+};
@@ -0,0 +1,509 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import type { Labels, SnapMetrics, TimeWindow } from "./index.js";
+import { toPrometheus } from "./prometheus.js";
+
+export interface HttpMiddlewareOptions {
+  prefix?: string; // Prepended to every series and counter name. Defaults to "http_".
+  route?: boolean | ((req: IncomingMessage) => string | undefined); // Labels requests with their route, true reads the route Express matched. Defaults to false.
+}
+
+export interface MetricsHandlerOptions {
+  percentiles?: number[]; // Percentiles to serve when the query does not list any. Defaults to those of getMetrics() and toPrometheus().
+  prefix?: string; // Prepended to every metric name in the Prometheus format. Defaults to "".
+  refreshSeconds?: number; // How often the HTML page reloads itself. Defaults to 5.
+}
+
+export interface ServeMetricsOptions extends MetricsHandlerOptions {
+  port: number; // Port to listen on, 0 for any free port
+  host?: string; // Host to listen on. Defaults to all interfaces.
+  path?: string; // Path metrics are served on, other paths respond with 404. Defaults to "/metrics".
+}
+
+export type MetricsHandler = (
+  req: IncomingMessage,
+  res: ServerResponse
+) => void;
+
+type MetricsFormat = "json" | "prometheus" | "html";
+
+/**
+ * Media types of the formats, in order of preference when the Accept header ranks them equally.
+ */
+const MEDIA_TYPES: [MetricsFormat, string][] = [
+  ["json", "application/json"],
+  ["html", "text/html"],
+  ["prometheus", "text/plain"],
+];
+
+const CONTENT_TYPES: Record<MetricsFormat, string> = {
+  json: "application/json; charset=utf-8",
+  html: "text/html; charset=utf-8",
+  prometheus: "text/plain; version=0.0.4; charset=utf-8",
+};
+
+/**
+ * Middleware with the `(req, res, next)` signature of Express and Connect. `next` is optional, so it can also be
+ * called at the start of a plain `node:http` request handler.
+ */
+export type HttpMiddleware = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next?: (error?: unknown) => void
+) => void;
+
+/**
+ * Reads the route pattern Express matched a request with, e.g. "/users/:id", including the path of its router.
+ */
+const getExpressRoute = (req: IncomingMessage): string | undefined => {
+  const { route, baseUrl = "" } = req as IncomingMessage & {
+    route?: { path?: unknown };
+    baseUrl?: string;
+  };
+  return typeof route?.path === "string" ? baseUrl + route.path : undefined;
+};
+
+/**
+ * Counts the bytes of a chunk written to a response.
+ */
+const getByteLength = (chunk: unknown, encoding: unknown): number => {
+  if (typeof chunk === "string") {
+    return Buffer.byteLength(
+      chunk,
+      typeof encoding === "string" ? (encoding as BufferEncoding) : "utf8"
+    );
+  }
+  return chunk instanceof Uint8Array ? chunk.byteLength : 0;
+};
+
+/**
+ * Creates a middleware measuring every HTTP request.
+ * @description A completed request with a status below 500 records its duration in milliseconds into the
+ * `request_duration` series and the bytes of its body into the `response_size` series. Every completed request
+ * increments the `requests` counter, labelled with its status class (e.g. "2xx"). Responses with a 5xx status
+ * and responses failing with an error increment the `request_errors` counter instead of recording a duration,
+ * and requests closed before their response completed, e.g. by the client going away, increment the
+ * `requests_aborted` counter. Everything is labelled with the request method, and with the route when enabled.
+ * Only label routes with patterns rather than raw URLs, since every distinct route is a separate label set.
+ * @param metrics The instance to record into
+ * @param options Configuration options
+ * @param options.prefix Prepended to every series and counter name. Defaults to "http_".
+ * @param options.route `true` to label requests with the route Express matched, or a function returning the
+ * route of a request. Requests without a route are not labelled with one. Defaults to `false`.
+ * @returns The middleware
+ * @example
+ * const metrics = new SnapMetrics();
+ * app.use(createHttpMiddleware(metrics, { route: true }));
+ *
+ * metrics.getPercentiles(95, { series: "http_request_duration", labels: { route: "/users/:id" } });
+ * metrics.getCounter("http_requests", { status_class: "5xx" });
+ */
+export const createHttpMiddleware = (
+  metrics: SnapMetrics,
+  { prefix = "http_", route = false }: HttpMiddlewareOptions = {}
+): HttpMiddleware => {
+  const getRoute = route === true ? getExpressRoute : route || undefined;
+
+  return (req, res, next) => {
+    const startTime = performance.now();
+    let bytes = 0;
+    let settled = false; // Whether the request was already counted
+
+    // Count the body as it is written, responses streamed in chunks have no Content-Length
+    const { write, end } = res;
+    res.write = function (this: ServerResponse, chunk: unknown, ...args) {
+      bytes += getByteLength(chunk, args[0]);
+      return write.call(this, chunk, ...(args as [BufferEncoding]));
+    } as typeof res.write;
+    res.end = function (this: ServerResponse, chunk?: unknown, ...args) {
+      if (typeof chunk !== "function") bytes += getByteLength(chunk, args[0]);
+      return end.call(this, chunk, ...(args as [BufferEncoding]));
+    } as typeof res.end;
+
+    const getLabels = (): Labels => {
+      const labels: Labels = { method: req.method ?? "UNKNOWN" };
+      const path = getRoute?.(req);
+      if (path !== undefined) labels["route"] = path;
+      return labels;
+    };
+
+    res.once("finish", () => {
+      if (settled) return;
+      settled = true;
+      const labels = getLabels();
+      const statusLabels = {
+        ...labels,
+        status_class: `${Math.floor(res.statusCode / 100)}xx`,
+      };
+
+      metrics.increment(`${prefix}requests`, 1, statusLabels);
+      if (res.statusCode >= 500) {
+        metrics.increment(`${prefix}request_errors`, 1, labels);
+        return;
+      }
+      metrics.record(
+        `${prefix}request_duration`,
+        performance.now() - startTime,
+        statusLabels
+      );
+      metrics.record(`${prefix}response_size`, bytes, statusLabels);
+    });
+    res.once("error", () => {
+      if (settled) return;
+      settled = true;
+      metrics.increment(`${prefix}request_errors`, 1, getLabels());
+    });
+    res.once("close", () => {
+      if (settled) return; // Closed after finishing
+      settled = true;
+      metrics.increment(`${prefix}requests_aborted`, 1, getLabels());
+    });
+
+    next?.();
+  };
+};
+
+/**
+ * Picks the format an Accept header ranks highest.
+ * @description Each format takes the quality of the most specific media range matching it: its media type, then a
+ * wildcard subtype, then the wildcard of any type. Prometheus asks for `text/plain`, browsers for `text/html`, and
+ * clients accepting anything get JSON.
+ * @param accept Value of the Accept header
+ * @returns The format, JSON if the header is missing or accepts none of the formats
+ */
+const negotiateFormat = (accept: string | undefined): MetricsFormat => {
+  if (!accept) return "json";
+  const ranges = accept.split(",").map((part) => {
+    const [range = "", ...parameters] = part.toLowerCase().split(";");
+    const quality = parameters
+      .map((parameter) => parameter.trim())
+      .find((parameter) => parameter.startsWith("q="));
+    return {
+      range: range.trim(),
+      quality: quality === undefined ? 1 : Number(quality.slice(2)),
+    };
+  });
+
+  let best: MetricsFormat = "json";
+  let bestQuality = 0;
+  for (const [format, type] of MEDIA_TYPES) {
+    const match =
+      ranges.find(({ range }) => range === type) ??
+      ranges.find(({ range }) => range === `${type.split("/")[0]}/*`) ??
+      ranges.find(({ range }) => range === "*/*");
+    if (match && match.quality > bestQuality) {
+      best = format;
+      bestQuality = match.quality;
+    }
+  }
+  return best;
+};
+
+/**
+ * Reads the values of a query parameter, given repeatedly or separated by commas.
+ */
+const getListParameter = (
+  query: URLSearchParams,
+  name: string
+): string[] | undefined => {
+  const values = query
+    .getAll(name)
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter(Boolean);
+  return values.length ? values : undefined;
+};
+
+/**
+ * Selection of the metrics to serve, read from the query parameters.
+ */
+interface MetricsQuery {
+  format: MetricsFormat;
+  windows: TimeWindow[];
+  percentiles?: number[];
+  series: string[];
+}
+
+/**
+ * Reads the format and selected metrics of a request.
+ * @throws {Error} If the format, a time window or a percentile is invalid.
+ */
+const readQuery = (
+  req: IncomingMessage,
+  metrics: SnapMetrics,
+  defaultPercentiles: number[] | undefined
+): MetricsQuery => {
+  const query = new URL(req.url ?? "/", "http://localhost").searchParams;
+
+  const format = query.get("format") ?? negotiateFormat(req.headers.accept);
+  if (!MEDIA_TYPES.some(([known]) => known === format)) {
+    throw new Error(`Invalid format: ${format}`);
+  }
+
+  const counters = metrics.getCounters(); // Keyed by every time window
+  const allWindows = Object.keys(counters) as TimeWindow[];
+  const windows = (getListParameter(query, "windows") ??
+    allWindows) as TimeWindow[];
+  for (const window of windows) {
+    if (!allWindows.includes(window)) {
+      throw new Error(`Unknown time window: ${window}`);
+    }
+  }
+
+  const percentiles =
+    getListParameter(query, "percentiles")?.map(Number) ?? defaultPercentiles;
+  for (const percentile of percentiles ?? []) {
+    if (!(percentile >= 0 && percentile <= 100)) {
+      throw new Error("Percentile must be between 0 and 100");
+    }
+  }
+
+  const series = getListParameter(query, "series") ?? [
+    ...new Set(Object.values(metrics.getSeries()).flatMap(Object.keys)),
+  ];
+
+  return { format: format as MetricsFormat, windows, percentiles, series };
+};
+
+/**
+ * Collects the metrics of the selected series and all counters, for the selected time windows, and all gauges.
+ */
+const collectMetrics = (
+  metrics: SnapMetrics,
+  { windows, percentiles, series }: MetricsQuery
+) => {
+  const pick = <T>(perWindow: Record<TimeWindow, T>): Record<TimeWindow, T> =>
+    Object.fromEntries(
+      windows.map((window) => [window, perWindow[window]])
+    ) as Record<TimeWindow, T>;
+
+  return {
+    timestamp: Date.now(),
+    metrics: Object.fromEntries(
+      series.map((name) => [
+        name,
+        pick(metrics.getMetrics({ series: name, percentiles })),
+      ])
+    ),
+    counters: pick(metrics.getCounters()),
+    gauges: metrics.getGauges(),
+  };
+};
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const formatNumber = (value: number | null | undefined): string =>
+  value === null || value === undefined
+    ? ""
+    : value.toLocaleString("en-US", { maximumFractionDigits: 3 });
+
+/**
+ * Formats the name of a gauge with its labels, e.g. `queue_depth{queue="emails"}`.
+ */
+const formatGaugeName = (name: string, labels: Labels): string => {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${value}"`
+  );
+  return pairs.length ? `${name}{${pairs.join(",")}}` : name;
+};
+
+/**
+ * Renders a table with a row per name and a column per time window, or per other column.
+ */
+const renderTable = (
+  heading: string,
+  columns: string[],
+  rows: [name: string, values: (number | null | undefined)[]][]
+): string => {
+  const header = columns.map((column) => `<th>${escapeHtml(column)}</th>`);
+  const body = rows.map(
+    ([name, values]) =>
+      `<tr><td>${escapeHtml(name)}</td>${values
+        .map((value) => `<td>${formatNumber(value)}</td>`)
+        .join("")}</tr>`
+  );
+  return `<h2>${escapeHtml(heading)}</h2>
+<table><tr><th></th>${header.join("")}</tr>
+${body.join("\n")}
+</table>`;
+};
+
+/**
+ * Renders a page with a table per series, one for the counters and one for the gauges, reloading itself.
+ */
+const renderHtml = (
+  collected: ReturnType<typeof collectMetrics>,
+  windows: TimeWindow[],
+  refreshSeconds: number
+): string => {
+  const tables = Object.entries(collected.metrics).map(([name, perWindow]) => {
+    const stats = Object.keys(perWindow[windows[0]!] ?? {});
+    return renderTable(
+      name,
+      windows,
+      stats.map((stat) => [
+        stat,
+        windows.map((window) => perWindow[window]?.[stat]),
+      ])
+    );
+  });
+  const counterNames = [
+    ...new Set(Object.values(collected.counters).flatMap(Object.keys)),
+  ];
+  tables.push(
+    renderTable(
+      "Counters",
+      windows,
+      counterNames.map((name) => [
+        name,
+        windows.map((window) => collected.counters[window]?.[name]),
+      ])
+    )
+  );
+  tables.push(
+    renderTable(
+      "Gauges",
+      ["latest"],
+      collected.gauges.map(({ name, labels, latest }) => [
+        formatGaugeName(name, labels),
+        [latest],
+      ])
+    )
+  );
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta http-equiv="refresh" content="${refreshSeconds}">
+<title>Metrics</title>
+<style>
+body { font-family: sans-serif; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #ccc; padding: 2px 8px; text-align: right; }
+td:first-child { text-align: left; }
+</style>
+</head>
+<body>
+${tables.join("\n")}
+<p>Updated ${new Date(collected.timestamp).toISOString()}</p>
+</body>
+</html>
+`;
+};
+
+/**
+ * Creates a request handler serving the metrics of an instance.
+ * @description Serves `getMetrics()` of every series, `getCounters()` and `getGauges()` as JSON, the Prometheus
+ * text exposition format when the Accept header prefers `text/plain` (as Prometheus does), or HTML tables
+ * reloading themselves when it prefers `text/html` (as browsers do). The `format` query parameter overrides the
+ * Accept header. The `windows`, `percentiles` and `series` query parameters select what is served, each repeated
+ * or separated by commas, e.g. `/metrics?windows=1m&percentiles=50,99&series=http_request_duration`. Invalid
+ * parameters respond with 400, and methods other than GET and HEAD with 405.
+ * @param metrics The instance to serve
+ * @param options Configuration options
+ * @param options.percentiles Percentiles to serve when the query does not list any. Defaults to those of
+ * `getMetrics()` and `toPrometheus()`.
+ * @param options.prefix Prepended to every metric name in the Prometheus format. Defaults to "".
+ * @param options.refreshSeconds How often the HTML page reloads itself. Defaults to 5.
+ * @returns Handler with the `(req, res)` signature of `node:http`, Express and Connect
+ * @example
+ * const metrics = new SnapMetrics();
+ * app.get("/metrics", createMetricsHandler(metrics));
+ *
+ * // curl localhost:3000/metrics?windows=1m
+ * // { "timestamp": 1700000000000, "metrics": { "default": { "1m": { "count": 2, ... } } }, "counters": { "1m": {} }, "gauges": [] }
+ */
+export const createMetricsHandler = (
+  metrics: SnapMetrics,
+  { percentiles, prefix = "", refreshSeconds = 5 }: MetricsHandlerOptions = {}
+): MetricsHandler => {
+  return (req, res) => {
+    res.setHeader("Vary", "Accept");
+    res.setHeader("Cache-Control", "no-store");
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      res.writeHead(405, { Allow: "GET, HEAD" }).end();
+      return;
+    }
+
+    let query: MetricsQuery;
+    try {
+      query = readQuery(req, metrics, percentiles);
+    } catch (error) {
+      res
+        .writeHead(400, { "Content-Type": "text/plain; charset=utf-8" })
+        .end(`${(error as Error).message}\n`);
+      return;
+    }
+
+    let body: string;
+    if (query.format === "prometheus") {
+      body = toPrometheus(metrics, {
+        prefix,
+        percentiles: query.percentiles,
+        windows: query.windows,
+        series: query.series,
+      });
+    } else if (query.format === "html") {
+      body = renderHtml(
+        collectMetrics(metrics, query),
+        query.windows,
+        refreshSeconds
+      );
+    } else {
+      body = JSON.stringify(collectMetrics(metrics, query));
+    }
+
+    res
+      .writeHead(200, { "Content-Type": CONTENT_TYPES[query.format] })
+      .end(body);
+  };
+};
+
+/**
+ * Starts an HTTP server serving the metrics of an instance, see `createMetricsHandler()`.
+ * @param metrics The instance to serve
+ * @param options Configuration options, and those of `createMetricsHandler()`
+ * @param options.port Port to listen on, 0 for any free port
+ * @param options.host Host to listen on. Defaults to all interfaces.
+ * @param options.path Path metrics are served on, other paths respond with 404. Defaults to "/metrics".
+ * @returns The server, listening. Close it to stop serving.
+ * @example
+ * const metrics = new SnapMetrics();
+ * const server = serveMetrics(metrics, { port: 9100 });
+ * // Scrape http://localhost:9100/metrics, or open it in a browser
+ * server.close();
+ */
+export const serveMetrics = (
+  metrics: SnapMetrics,
+  { port, host, path = "/metrics", ...options }: ServeMetricsOptions
+): Server => {
+  const handler = createMetricsHandler(metrics, options);
+  const server = createServer((req, res) => {
+    let pathname: string;
+    try {
+      pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+    } catch {
+      res.writeHead(400, { "Content-Type": "text/plain; charset=utf-8" });
+      res.end("Invalid request target\n");
+      return;
+    }
+    if (pathname !== path) {
+      res.writeHead(404, { "Content-Type": "text/plain; charset=utf-8" });
+      res.end("Not found\n");
+      return;
+    }
+    handler(req, res);
+  });
+  server.listen(port, host);
+  return server;
+};
@@ -1,55 +1,322 @@
-import Denque from "denque";
 import { throttle } from "throttle-debounce";
+import { createBucketedStorage } from "./bucketed-store.js";
+import { createExactStorage } from "./exact-store.js";
+import { DecayingTotals, type DecayedTotals } from "./ewma.js";
+import { Gauge, type GaugeStats } from "./gauge.js";
+import { SampleLog } from "./sample-log.js";
 import {
-  calculateAverage,
-  calculatePercentile,
-  calculateMinimum,
-  calculateMaximum,
+  calculateCoefficientOfVariation,
+  calculateGeometricMean,
+  calculateHarmonicMean,
+  calculateKurtosis,
+  calculateMedianAbsoluteDeviation,
+  calculateSkewness,
   calculateStandardDeviation,
+  calculateTrimmedMean,
+  calculateVariance,
+  calculateWinsorizedMean,
+  calculateZScore,
 } from "./stats.js";
-import { parseTimeWindow, swapLevels } from "./utils.js";
+import { subtractMoments } from "./moments.js";
+import {
+  PeriodHistory,
+  type PeriodAlignment,
+  type PeriodSummary,
+} from "./history.js";
+import {
+  createScheduler,
+  type SnapshotListener,
+  type Subscription,
+  type SubscriptionOptions,
+} from "./subscription.js";
+import {
+  updateWatchState,
+  validateWatchRule,
+  type Watch,
+  type WatchHandler,
+  type WatchRule,
+  type WatchState,
+} from "./watch.js";
+import {
+  SNAPSHOT_VERSION,
+  validateSnapshot,
+  type Snapshot,
+} from "./snapshot.js";
+import type {
+  SeriesStore,
+  StorageEngine,
+  StorageMode,
+  QuantileMode,
+  ValueDistribution,
+} from "./storage.js";
+import {
+  getSeriesKey,
+  groupLabels,
+  matchLabels,
+  normalizeLabels,
+  parseSeriesKey,
+  parseTimeWindow,
+  reportError,
+  swapLevels,
+  type Labels,
+} from "./utils.js";
+
+export type { Labels } from "./utils.js";
+export { toPrometheus, type PrometheusOptions } from "./prometheus.js";
+export type { StorageMode, QuantileMode } from "./storage.js";
+export { QuantileSketch } from "./sketch.js";
+export { linearBuckets, exponentialBuckets } from "./histogram.js";
+export type { Snapshot } from "./snapshot.js";
+export type { PeriodAlignment, PeriodSummary } from "./history.js";
+export type { GaugeStats } from "./gauge.js";
+export type { Watch, WatchEvent, WatchHandler, WatchRule } from "./watch.js";
+export type {
+  MetricsSnapshot,
+  SnapshotListener,
+  Subscription,
+  SubscriptionOptions,
+} from "./subscription.js";
+export {
+  createMetricsReporter,
+  createMetricsAggregator,
+  type MetricsMessage,
+  type MetricsReporter,
+  type MetricsReporterOptions,
+  type MetricsAggregator,
+  type MetricsAggregatorOptions,
+} from "./cluster.js";
+export {
+  createHttpMiddleware,
+  createMetricsHandler,
+  serveMetrics,
+  type HttpMiddleware,
+  type HttpMiddlewareOptions,
+  type MetricsHandler,
+  type MetricsHandlerOptions,
+  type ServeMetricsOptions,
+} from "./http.js";
 
 export type TimeWindow = `${number}${"s" | "m" | "h"}`; // e.g., "15s", "1m", "2h"
 
-interface ValueMetrics {
-  sum: number;
-  count: number;
-  queue: Denque<{ timestamp: number; value: number }>;
-  sortedValues?: number[]; // Cache of sorted values
+/**
+ * Name of the series used when `record` is called without a series name.
+ */
+export const DEFAULT_SERIES = "default";
+
+/**
+ * Moving averages not updated for this many times the longest half-life are dropped, as their values then weigh
+ * less than one in four billion.
+ */
+const MAX_HALF_LIVES = 32;
+
+/**
+ * Events of a counter within a time window.
+ */
+export interface CounterDetails {
+  events: number; // Number of increments
+  total: number; // Sum of the incremented amounts
+}
+
+interface CounterTotals {
+  events: number;
+  sum: number; // Compensated (Neumaier) sum, so expiring events does not leave floating point drift behind
+  compensation: number;
 }
 
 interface EventMetrics {
-  counts: Map<string, number>; // Maps event names to their counts
-  timestamps: Denque<{ timestamp: number; event: string }>; // Tracks when events occurred
+  counters: Map<string, CounterTotals>; // Maps counter keys (name and labels) to their rolling totals
+}
+
+interface CounterEvent {
+  timestamp: number;
+  event: string; // Counter key (name and labels)
+  value: number;
 }
 
 interface WindowData {
-  values: ValueMetrics;
   events: EventMetrics;
 }
 
-interface SnapMetricsOptions {
+/**
+ * Selects the values of a series, optionally narrowed down to label sets matching a label filter.
+ */
+export interface SeriesSelector {
+  series?: string; // Series name, defaults to the default series.
+  labels?: Labels; // Only include label sets containing all of these labels.
+}
+
+/**
+ * Cumulative bucket counts of the values within a time window.
+ */
+export interface Histogram {
+  le: Record<string, number>; // Values less than or equal to each bucket bound, ending with "+Inf".
+  sum: number;
+  count: number;
+}
+
+/**
+ * How rates are calculated: per second of the full window duration, or of the elapsed part of the window.
+ */
+export type RateMode = "window" | "elapsed";
+
+export type VarianceMode = "population" | "sample";
+
+/**
+ * Statistics that outliers barely affect, which `getMetrics()` can include.
+ */
+export type RobustStatistic =
+  | "interquartileRange"
+  | "medianAbsoluteDeviation"
+  | "trimmedMean"
+  | "winsorizedMean"
+  | "geometricMean"
+  | "harmonicMean";
+
+/**
+ * Compares the recent stats of every series and counter with a longer baseline, see `getAnomalies()`.
+ */
+export interface AnomalyOptions {
+  short: TimeWindow; // Recent time window to check
+  baseline: TimeWindow; // Longer time window the short one is compared with
+  zThreshold?: number; // Standard deviations from the baseline average a short window average is anomalous at. Defaults to 3.
+  ratioThreshold?: number; // Times the baseline rate a short window counter rate is anomalous at. Defaults to 3.
+  minCount?: number; // Values or events the short window needs to be anomalous. Defaults to 5.
+}
+
+/**
+ * How far the short window of a series or counter label set deviates from its baseline.
+ */
+export interface Anomaly {
+  type: "series" | "counter";
+  name: string;
+  labels: Labels;
+  short: number; // Average of the short window, or the counter's rate in it
+  baseline: number; // Average of the baseline window, or the counter's rate in it
+  score: number; // Z-score of the short window average for series, ratio of the rates for counters
+  severity: number; // Score relative to its threshold, anomalous from 1
+  anomalous: boolean;
+}
+
+export interface RecordOptions {
+  timestamp?: number; // Time the value or event occurred on the instance's clock, defaults to the current time
+}
+
+export interface SnapMetricsOptions {
   timeWindows?: TimeWindow[]; // Optional, defaults to ["1m", "5m", "15m"].
   removeExpiredRecordsThrottlingMS?: number | false; // Throttle interval in milliseconds or disable throttling.
+  storage?: StorageMode; // "exact" keeps every value, "bucketed" aggregates values into time slices. Defaults to "exact".
+  bucketDurationMS?: number; // Time slice duration in milliseconds for "bucketed" storage. Defaults to 1000.
+  quantiles?: QuantileMode; // "exact" builds an order statistic tree for each window whose percentiles are read, "approximate" keeps a quantile sketch. Defaults to "exact".
+  relativeAccuracy?: number; // Relative error bound of approximate percentiles. Defaults to 0.01.
+  rateMode?: RateMode; // "window" divides by the window duration, "elapsed" by the elapsed part of it. Defaults to "window".
+  variance?: VarianceMode; // "population" or "sample" (Bessel-corrected) variances and standard deviations. Defaults to "population".
+  clock?: () => number; // Returns the current time in milliseconds. Defaults to performance.now().
+  periods?: TimeWindow[]; // Tumbling periods to keep a history of, e.g. ["1m", "1h"]. Defaults to none.
+  periodHistory?: number; // Completed periods kept for each tumbling period. Defaults to 60.
+  periodAlignment?: PeriodAlignment; // "clock" starts periods on the wall clock, "start" when the instance is created. Defaults to "clock".
+  halfLives?: TimeWindow[]; // Half-lives of exponentially weighted moving averages, formatted like time windows. Defaults to ["1m", "5m", "15m"].
   debug?: boolean; // Enable or disable debug logging.
 }
 
-interface ValueResult {
-  values: number[];
-  isSorted: boolean;
-}
+/**
+ * Sums the rolling totals of the label sets of a counter matching a label filter.
+ * @returns The summed totals, or null if no label set matches
+ */
+const sumCounter = (
+  events: EventMetrics,
+  name: string,
+  labels: Labels
+): CounterDetails | null => {
+  let details: CounterDetails | null = null;
+  for (const [counterKey, counter] of events.counters) {
+    const key = parseSeriesKey(counterKey);
+    if (key.name !== name || !matchLabels(key.labels, labels)) continue;
+    details ??= { events: 0, total: 0 };
+    details.events += counter.events;
+    details.total += counter.sum + counter.compensation;
+  }
+  return details;
+};
+
+/**
+ * Sums the decaying totals of the label sets of a series or counter matching a label filter.
+ * @returns Record mapping each half-life to the summed totals, decayed to the current time, or null if no label set matches
+ */
+const sumDecaying = (
+  decaying: Map<string, DecayingTotals>,
+  halfLives: TimeWindow[],
+  name: string,
+  labels: Labels,
+  now: number
+): Record<TimeWindow, DecayedTotals> | null => {
+  let summed: Record<TimeWindow, DecayedTotals> | null = null;
+  for (const [key, totals] of decaying) {
+    const parsed = parseSeriesKey(key);
+    if (parsed.name !== name || !matchLabels(parsed.labels, labels)) continue;
+    summed ??= Object.fromEntries(
+      halfLives.map((halfLife) => [halfLife, { weight: 0, sum: 0 }])
+    ) as Record<TimeWindow, DecayedTotals>;
+    for (const halfLife of halfLives) {
+      const { weight, sum } = totals.get(halfLife, now);
+      summed[halfLife]!.weight += weight;
+      summed[halfLife]!.sum += sum;
+    }
+  }
+  return summed;
+};
+
+/**
+ * Adds an event to or removes an expired event from the rolling totals of a counter in a time window.
+ * @param events - Events of the time window
+ * @param counterKey - Key of the counter (name and labels)
+ * @param value - Amount of the event
+ * @param expired - Whether the event expired
+ */
+const updateCounter = (
+  events: EventMetrics,
+  counterKey: string,
+  value: number,
+  expired = false
+): void => {
+  let counter = events.counters.get(counterKey);
+  if (!counter) {
+    counter = { events: 0, sum: 0, compensation: 0 };
+    events.counters.set(counterKey, counter);
+  }
 
-enum SortRequirement {
-  SORTED = "sorted", // Must be sorted (median, percentiles)
-  PREFER_SORTED = "prefer_sorted", // Prefer sorted if available (min, max)
-  UNSORTED = "unsorted", // Must not be sorted (when raw values needed)
-  ANY = "any", // Don't care about sorting (avg, std dev)
-}
+  counter.events += expired ? -1 : 1;
+  if (counter.events <= 0) {
+    events.counters.delete(counterKey); // Drop counters without events
+    return;
+  }
+
+  const amount = expired ? -value : value;
+  const sum = counter.sum + amount;
+  counter.compensation +=
+    Math.abs(counter.sum) >= Math.abs(amount)
+      ? counter.sum - sum + amount
+      : amount - sum + counter.sum;
+  counter.sum = sum;
+};
 
 export class SnapMetrics {
   private windows: Record<TimeWindow, WindowData>;
   private timeWindowDurations: Record<TimeWindow, number>;
+  private events: SampleLog<CounterEvent>; // Counter events of all time windows, oldest first
+  private storage: StorageEngine;
+  private stores = new Map<string, SeriesStore>(); // Maps series keys (name and labels) to their values
+  private gauges = new Map<string, Gauge>(); // Maps gauge keys (name and labels) to their value changes
+  private snapshotOptions: Snapshot["options"]; // Options a snapshot needs to be restored with
+  private rateMode: RateMode;
+  private varianceMode: VarianceMode;
+  private clock: () => number;
+  private startTime: number; // Start of the elapsed time for "elapsed" rates
+  private histories = new Map<TimeWindow, PeriodHistory>(); // Maps tumbling periods to their history
+  private halfLives: Record<TimeWindow, number>;
+  private decayingValues = new Map<string, DecayingTotals>(); // Maps series keys (name and labels) to their decaying totals
+  private decayingCounters = new Map<string, DecayingTotals>(); // Maps counter keys (name and labels) to their decaying totals
   private debug: boolean;
+  private scheduler = createScheduler(this); // Shares timers and computations between subscriptions
   private throttledRemoveExpiredRecords = () => this.removeExpiredRecords();
 
   /**
@@ -64,6 +331,39 @@ export class SnapMetrics {
    *                                 - `removeExpiredRecordsThrottlingMS` (number | false): Time in milliseconds to throttle
    *                                   the removal of expired records. Must be a non-negative number (>= 0) or `false` to
    *                                   disable throttling. Defaults to `100` ms.
+   *                                 - `storage` ("exact" | "bucketed"): `"exact"` keeps every value for exact statistics.
+   *                                   `"bucketed"` aggregates values into fixed time slices so memory no longer grows
+   *                                   with throughput; percentiles are then approximate. Defaults to `"exact"`.
+   *                                 - `bucketDurationMS` (number): Duration of a time slice in milliseconds when using
+   *                                   `"bucketed"` storage. Must be a positive number. Defaults to `1000` ms.
+   *                                 - `quantiles` ("exact" | "approximate"): How `"exact"` storage calculates percentiles
+   *                                   and medians. `"exact"` builds an order statistic tree, with a node per distinct
+   *                                   value, for each window whose percentiles are read. `"approximate"` keeps a
+   *                                   mergeable quantile sketch per window instead. `"bucketed"` storage is always approximate. Defaults to `"exact"`.
+   *                                 - `relativeAccuracy` (number): Relative error bound of approximate percentiles, between
+   *                                   0 and 1 (exclusive). Defaults to `0.01` (1%).
+   *                                 - `rateMode` ("window" | "elapsed"): How rates are calculated. `"window"` divides by the
+   *                                   full window duration, `"elapsed"` by the part of the window that has elapsed
+   *                                   since the instance was created, so rates are not too low right after startup.
+   *                                   Defaults to `"window"`.
+   *                                 - `variance` ("population" | "sample"): Whether variances, standard deviations,
+   *                                   coefficients of variation, skewnesses and kurtoses describe the values themselves
+   *                                   (`"population"`) or estimate those of a larger population they are a sample of
+   *                                   (`"sample"`, e.g. with Bessel's correction). Defaults to `"population"`.
+   *                                 - `clock` (function): Returns the current time in milliseconds, used to timestamp
+   *                                   and expire values and events and to measure durations. Timestamps passed to `record` and `increment` are on
+   *                                   this clock. Inject one to replay logs or run deterministic tests. Defaults to
+   *                                   `performance.now()`.
+   *                                 - `periods` (Array<string>): Tumbling periods to keep a history of completed periods
+   *                                   for, formatted like time windows, see `getHistory()`. Defaults to none.
+   *                                 - `periodHistory` (number): Completed periods kept for each tumbling period. Must be
+   *                                   a positive integer. Defaults to `60`.
+   *                                 - `periodAlignment` ("clock" | "start"): `"clock"` starts periods on multiples of their
+   *                                   duration on the wall clock (e.g. every calendar minute), `"start"` starts them when
+   *                                   the instance is created. Defaults to `"clock"`.
+   *                                 - `halfLives` (Array<string>): Half-lives of the exponentially weighted moving
+   *                                   averages of `getEWMAs()` and `getCounterEWMARates()`, formatted like time windows.
+   *                                   Defaults to ["1m", "5m", "15m"].
    *                                 - `debug` (boolean): Enables logging for debugging. Defaults to `false`.
    * @example
    * const metrics = new SnapMetrics({ timeWindows: ["1m", "5m", "15m"], removeExpiredRecordsThrottlingMS: 100, debug: true });
@@ -83,28 +383,106 @@ export class SnapMetrics {
 
     const {
       removeExpiredRecordsThrottlingMS = 100, // Default throttling interval.
+      storage = "exact", // Default storage mode.
+      bucketDurationMS = 1000, // Default time slice duration.
+      quantiles = "exact", // Default quantile mode.
+      relativeAccuracy = 0.01, // Default relative error bound of approximate percentiles.
+      rateMode = "window", // Default rate calculation.
+      variance = "population", // Default variance calculation.
+      clock = () => performance.now(), // Default clock.
+      periods = [], // Default tumbling periods.
+      periodHistory = 60, // Default completed periods kept.
+      periodAlignment = "clock", // Default period alignment.
+      halfLives = ["1m", "5m", "15m"], // Default half-lives of moving averages.
       debug = false, // Default debug setting.
     } = options;
 
     this.debug = debug;
 
+    if (rateMode !== "window" && rateMode !== "elapsed") {
+      throw new Error(`Invalid rate mode: ${rateMode}`);
+    }
+    this.rateMode = rateMode;
+
+    if (variance !== "population" && variance !== "sample") {
+      throw new Error(`Invalid variance mode: ${variance}`);
+    }
+    this.varianceMode = variance;
+
+    if (typeof clock !== "function") {
+      throw new Error("Clock must be a function");
+    }
+    this.clock = clock;
+    this.startTime = clock();
+
+    if (!(Number.isInteger(periodHistory) && periodHistory > 0)) {
+      throw new Error("Period history must be a positive integer");
+    }
+    if (periodAlignment !== "clock" && periodAlignment !== "start") {
+      throw new Error(`Invalid period alignment: ${periodAlignment}`);
+    }
+    // The default clock counts from the start of the process, align and report periods in wall clock time instead
+    const wallOffset = options.clock ? 0 : Math.round(Date.now() - clock());
+    for (const period of periods) {
+      this.histories.set(
+        period,
+        new PeriodHistory(
+          parseTimeWindow(period),
+          periodHistory,
+          periodAlignment === "start" ? this.startTime : -wallOffset,
+          wallOffset,
+          relativeAccuracy
+        )
+      );
+    }
+
+    this.halfLives = Object.fromEntries(
+      halfLives.map((key) => [key, parseTimeWindow(key)])
+    ) as Record<TimeWindow, number>;
+
     this.timeWindowDurations = Object.fromEntries(
       timeWindows.map((key) => [key, parseTimeWindow(key)])
     ) as Record<TimeWindow, number>;
+    this.events = new SampleLog(this.timeWindowDurations);
+
+    if (!(relativeAccuracy > 0 && relativeAccuracy < 1)) {
+      throw new Error("Relative accuracy must be between 0 and 1");
+    }
+    if (quantiles !== "exact" && quantiles !== "approximate") {
+      throw new Error(`Invalid quantile mode: ${quantiles}`);
+    }
+
+    if (storage === "bucketed") {
+      if (!(bucketDurationMS > 0)) {
+        throw new Error("Bucket duration must be a positive number");
+      }
+      this.storage = createBucketedStorage(
+        this.timeWindowDurations,
+        bucketDurationMS,
+        relativeAccuracy
+      );
+    } else if (storage === "exact") {
+      this.storage = createExactStorage(
+        this.timeWindowDurations,
+        quantiles === "approximate" ? relativeAccuracy : undefined
+      );
+    } else {
+      throw new Error(`Invalid storage mode: ${storage}`);
+    }
+
+    this.snapshotOptions = {
+      timeWindows,
+      storage,
+      bucketDurationMS,
+      quantiles,
+      relativeAccuracy,
+    };
 
     this.windows = Object.fromEntries(
       timeWindows.map((key) => [
         key,
         {
-          values: {
-            sum: 0,
-            count: 0,
-            queue: new Denque(),
-          },
-          events: {
-            counts: new Map(),
-            timestamps: new Denque(),
-          },
+          events: { counters: new Map() },
         },
       ])
     ) as Record<TimeWindow, WindowData>;
@@ -121,43 +499,60 @@ export class SnapMetrics {
    * Removes expired records from all time windows.
    */
   private removeExpiredRecords() {
-    const now = performance.now();
-
-    for (const [key, window] of Object.entries(this.windows)) {
-      const expiryTime = this.timeWindowDurations[key as TimeWindow]!;
-      let expired = false;
-
-      // Remove expired numeric values
-      while (
-        !window.values.queue.isEmpty() &&
-        now - window.values.queue.peekFront()!.timestamp > expiryTime
-      ) {
-        const expiredValue = window.values.queue.shift()!;
-        window.values.sum -= expiredValue.value;
-        window.values.count--;
-        expired = true;
-      }
+    const now = this.clock();
 
-      if (expired) {
-        delete window.values.sortedValues; // Invalidate cached sorted values if any records expired
+    // Remove expired numeric values
+    for (const [seriesKey, store] of this.stores) {
+      store.removeExpired(now);
+      if (store.isEmpty()) {
+        this.stores.delete(seriesKey); // Drop series with no remaining values
       }
+    }
+
+    const longest = Math.max(...Object.values(this.timeWindowDurations));
+    for (const gauge of this.gauges.values()) {
+      gauge.removeExpired(now, longest);
+    }
+
+    this.removeExpiredEvents(now);
 
-      // Remove expired events and update their counts
-      while (
-        !window.events.timestamps.isEmpty() &&
-        now - window.events.timestamps.peekFront()!.timestamp > expiryTime
-      ) {
-        const expiredEvent = window.events.timestamps.shift()!;
-        const currentCount = window.events.counts.get(expiredEvent.event) || 0;
-        if (currentCount <= 1) {
-          window.events.counts.delete(expiredEvent.event);
-        } else {
-          window.events.counts.set(expiredEvent.event, currentCount - 1);
+    // Drop moving averages whose values have decayed to nothing
+    const longestHalfLife = Math.max(0, ...Object.values(this.halfLives));
+    for (const decaying of [this.decayingValues, this.decayingCounters]) {
+      for (const [key, totals] of decaying) {
+        if (now - totals.lastUpdate > longestHalfLife * MAX_HALF_LIVES) {
+          decaying.delete(key);
         }
       }
     }
   }
 
+  /**
+   * Adds a value to the decaying totals of a series or counter, creating them if needed.
+   */
+  private addDecaying(
+    decaying: Map<string, DecayingTotals>,
+    key: string,
+    timestamp: number,
+    value: number
+  ) {
+    let totals = decaying.get(key);
+    if (!totals) {
+      totals = new DecayingTotals(this.halfLives, timestamp);
+      decaying.set(key, totals);
+    }
+    totals.add(timestamp, value);
+  }
+
+  /**
+   * Removes expired counter events and subtracts them from their counter's totals.
+   */
+  private removeExpiredEvents(now: number) {
+    this.events.removeExpired(now, (key, { event, value }) => {
+      updateCounter(this.windows[key]!.events, event, value, true);
+    });
+  }
+
   /**
    * Maps a function over all time windows and returns the results.
    * @param mapper Function that transforms a window's data into a result
@@ -175,80 +570,166 @@ export class SnapMetrics {
   }
 
   /**
-   * Gets values from a window, optionally sorted, with efficient caching.
-   * @param windowKey - The time window key
-   * @param sortRequirement - Optional sorting requirement, defaults to ANY
-   * @returns Object containing values array and isSorted flag, or null if window doesn't exist
+   * Selects the stores of the label sets of a series matching a selector.
+   * @param series - The series name, or a selector with a series name and label filter
+   * @returns The matching stores
    */
-  private getValues(
-    windowKey: TimeWindow,
-    sortRequirement: SortRequirement = SortRequirement.ANY
-  ): ValueResult | null {
-    const window = this.windows[windowKey];
-    if (!window) {
-      return null;
-    }
-    if (window.values.count === 0) {
-      return { values: [], isSorted: true };
-    }
-
-    if (
-      window.values.sortedValues &&
-      window.values.sortedValues.length === window.values.queue.length
-    ) {
-      // Return cached sorted values unless UNSORTED is specifically required
-      if (sortRequirement !== SortRequirement.UNSORTED) {
-        return { values: window.values.sortedValues, isSorted: true };
-      }
-    }
-
-    const values = window.values.queue.toArray().map((v) => v.value);
+  private selectStores(series: string | SeriesSelector): SeriesStore[] {
+    const { series: name = DEFAULT_SERIES, labels = {} } =
+      typeof series === "string" ? { series } : series;
 
-    switch (sortRequirement) {
-      case SortRequirement.SORTED:
-        const sortedValues = values.sort((a, b) => a - b);
-        window.values.sortedValues = sortedValues;
-        return { values: sortedValues, isSorted: true };
+    return Array.from(this.stores.values()).filter(
+      (store) => store.series === name && matchLabels(store.labels, labels)
+    );
+  }
 
-      case SortRequirement.PREFER_SORTED:
-        return { values, isSorted: false };
+  /**
+   * Maps a function over the distribution of a series' values in each time window.
+   * @param series - The series name, or a selector with a series name and label filter
+   * @param mapper - Function that transforms a non-empty distribution into a result
+   * @returns Record mapping each time window to its transformed value, or null for empty windows
+   */
+  private mapDistributions<T>(
+    series: string | SeriesSelector,
+    mapper: (distribution: ValueDistribution) => T
+  ): Record<TimeWindow, T | null> {
+    const stores = this.selectStores(series);
+
+    return this.mapWindows((_, key) => {
+      const selected = stores.filter((store) => store.getCount(key) > 0);
+      if (!selected.length) return null;
+      return mapper(this.storage.combine(selected, key));
+    });
+  }
 
-      case SortRequirement.UNSORTED:
-        return { values, isSorted: false };
+  /**
+   * Returns the store of a series and label set, creating it if needed.
+   * @param series - The series name
+   * @param labels - Normalised labels
+   * @returns The store
+   */
+  private getStore(series: string, labels: Labels): SeriesStore {
+    const seriesKey = getSeriesKey(series, labels);
+    let store = this.stores.get(seriesKey);
+    if (!store) {
+      store = this.storage.createStore(series, labels);
+      this.stores.set(seriesKey, store);
+    }
+    return store;
+  }
 
-      case SortRequirement.ANY:
-        return { values, isSorted: false };
+  /**
+   * Returns the timestamp of a value or event being recorded.
+   * @param timestamp - Explicit timestamp on the clock, if any
+   * @param now - Current time on the clock
+   * @returns The explicit timestamp, or now
+   * @throws {Error} If the timestamp is not a finite number or is later than now.
+   */
+  private getTimestamp(timestamp: number | undefined, now: number): number {
+    if (timestamp === undefined) return now;
+    if (!Number.isFinite(timestamp)) {
+      throw new Error("Timestamp must be a finite number");
     }
+    if (timestamp > now) {
+      throw new Error("Timestamp cannot be later than the current time");
+    }
+    return timestamp;
   }
 
   /**
    * Records a value into all active time windows.
-   * @param value - Value.
+   * @description With an explicit timestamp, e.g. to backfill data or replay logs, the value is inserted in time
+   * order and only counts towards the windows and tumbling periods it falls into. Values older than the cursor of a previous delta snapshot are not included in later deltas.
+   * @param seriesOrValue - Series name, or the value to record into the default series.
+   * @param valueOrLabels - Value when a series name is given, otherwise optional labels.
+   * @param labelsOrOptions - Optional labels when a series name is given, otherwise optional record options.
+   * @param options - Optional record options, when a series name is given.
+   * @param options.timestamp - Time the value was measured on the instance's clock. Defaults to the current time.
+   * @throws {Error} If the timestamp is not a finite number or is later than the current time.
    * @example
    * const metrics = new SnapMetrics();
-   * metrics.record(1); // Records a value of 1 into all active time windows
+   * metrics.record(1); // Records a value of 1 into the default series of all active time windows
+   * metrics.record("db_latency", 12); // Records a value of 12 into the "db_latency" series
+   * metrics.record("http_latency", 35, { route: "/users", status: "200" }); // Records into a labelled series
+   * metrics.record("db_latency", 12, {}, { timestamp: clock() - 5000 }); // Records a value measured 5 seconds ago
    */
-  record(value: number): void {
-    if (this.debug) console.log(`Recording value: ${value}`);
-    const timestamp = performance.now();
+  record(value: number, labels?: Labels, options?: RecordOptions): void;
+  record(
+    series: string,
+    value: number,
+    labels?: Labels,
+    options?: RecordOptions
+  ): void;
+  record(
+    seriesOrValue: string | number,
+    valueOrLabels?: number | Labels,
+    labelsOrOptions?: Labels | RecordOptions,
+    options?: RecordOptions
+  ): void {
+    const [series, value, recordedLabels, { timestamp: recordedAt } = {}] =
+      typeof seriesOrValue === "number"
+        ? [
+            DEFAULT_SERIES,
+            seriesOrValue,
+            valueOrLabels as Labels | undefined,
+            labelsOrOptions as RecordOptions | undefined,
+          ]
+        : [
+            seriesOrValue,
+            valueOrLabels as number,
+            labelsOrOptions as Labels | undefined,
+            options,
+          ];
+    const normalizedLabels = normalizeLabels(recordedLabels);
+    const seriesKey = getSeriesKey(series, normalizedLabels);
 
-    for (const window of Object.values(this.windows)) {
-      window.values.queue.push({ timestamp, value });
-      window.values.sum += value;
-      window.values.count++;
+    if (this.debug)
+      console.log(`Recording value: ${value} (series: ${seriesKey})`);
+    const now = this.clock();
+    const timestamp = this.getTimestamp(recordedAt, now);
+
+    for (const history of this.histories.values()) {
+      history.record(seriesKey, timestamp, value);
+    }
+    this.addDecaying(this.decayingValues, seriesKey, timestamp, value);
+
+    const longest = Math.max(...Object.values(this.timeWindowDurations));
+    if (now - timestamp > longest) {
+      if (this.debug)
+        console.log("Dropping value older than every time window");
+      return;
+    }
+
+    const store = this.getStore(series, normalizedLabels);
+    store.record(timestamp, value);
+    if (
+      Object.values(this.timeWindowDurations).some(
+        (duration) => now - timestamp > duration
+      )
+    ) {
+      store.removeExpired(now); // Already expired in some windows
     }
 
     this.throttledRemoveExpiredRecords();
 
     if (this.debug)
-      console.log("Updated windows:", JSON.stringify(this.windows, null, 2));
+      console.log(
+        `Updated series ${seriesKey}:`,
+        JSON.stringify(
+          this.mapWindows((_, key) => store.getCount(key)),
+          null,
+          2
+        )
+      );
   }
 
   /**
    * Measures the execution time of a synchronous or asynchronous function and records the duration in all time windows.
    *
    * @template T The return type of the provided function.
+   * @param seriesOrFn The series to record the duration into, or the function to measure (recorded into the default series).
    * @param fn The function to be executed, which can be synchronous or return a Promise for asynchronous execution.
+   * @param labels Optional labels for the recorded duration, when a series name is given.
    * @returns The result of the executed function. If the function returns a Promise, the result will also be a Promise.
    * @example
    * const metrics = new SnapMetrics();
@@ -256,25 +737,41 @@ export class SnapMetrics {
    *   // Your function logic here
    *   return someValue;
    * });
+   * const rows = await metrics.recordDuration("db_latency", () => db.query(sql));
    */
-  recordDuration<T>(fn: () => T | Promise<T>): T | Promise<T> {
-    const startTime = performance.now();
-
-    const result = fn();
+  recordDuration<T>(fn: () => T | Promise<T>): T | Promise<T>;
+  recordDuration<T>(
+    series: string,
+    fn: () => T | Promise<T>,
+    labels?: Labels
+  ): T | Promise<T>;
+  recordDuration<T>(
+    seriesOrFn: string | (() => T | Promise<T>),
+    fn?: () => T | Promise<T>,
+    labels?: Labels
+  ): T | Promise<T> {
+    const [series, measured] =
+      typeof seriesOrFn === "function"
+        ? [DEFAULT_SERIES, seriesOrFn]
+        : [seriesOrFn, fn!];
+    const startTime = this.clock();
+
+    const result = measured();
 
     if (result instanceof Promise) {
       return result.then((value) => {
-        this.record(performance.now() - startTime);
+        this.record(series, this.clock() - startTime, labels);
         return value;
       });
     } else {
-      this.record(performance.now() - startTime);
+      this.record(series, this.clock() - startTime, labels);
       return result;
     }
   }
 
   /**
    * Returns the count of values for all time windows.
+   * @param series The series name, or a selector with a series name and label filter. Defaults to the default series.
    * @returns Record mapping each time window to its count of recorded values.
    * @example
    * const metrics = new SnapMetrics();
@@ -282,11 +779,16 @@ export class SnapMetrics {
    * metrics.record(2);
    * metrics.getCounts(); // { "1m": 2, "5m": 2, "15m": 2 }
    */
-  getCounts(): Record<TimeWindow, number> {
+  getCounts(
+    series: string | SeriesSelector = DEFAULT_SERIES
+  ): Record<TimeWindow, number> {
     if (this.debug) console.log("Calculating counts...");
     this.throttledRemoveExpiredRecords();
 
-    const counts = this.mapWindows((window) => window.values.count);
+    const stores = this.selectStores(series);
+    const counts = this.mapWindows((_, key) =>
+      stores.reduce((count, store) => count + store.getCount(key), 0)
+    );
 
     if (this.debug)
       console.log("Counts calculated:", JSON.stringify(counts, null, 2));
@@ -295,6 +797,7 @@ export class SnapMetrics {
 
   /**
    * Returns the sum of values for all time windows.
+   * @param series The series name, or a selector with a series name and label filter. Defaults to the default series.
    * @returns Record mapping each time window to its sum value. Returns null for empty windows.
    * @example
    * const metrics = new SnapMetrics();
@@ -306,12 +809,15 @@ export class SnapMetrics {
    * const emptyMetrics = new SnapMetrics();
    * emptyMetrics.getSums(); // { "1m": null, "5m": null, "15m": null }
    */
-  getSums(): Record<TimeWindow, number | null> {
+  getSums(
+    series: string | SeriesSelector = DEFAULT_SERIES
+  ): Record<TimeWindow, number | null> {
     if (this.debug) console.log("Calculating sums...");
     this.throttledRemoveExpiredRecords();
 
-    const sums = this.mapWindows((window) =>
-      window.values.count === 0 ? null : window.values.sum
+    const sums = this.mapDistributions(
+      series,
+      (distribution) => distribution.sum
     );
 
     if (this.debug)
@@ -321,6 +827,7 @@ export class SnapMetrics {
 
   /**
    * Returns the rolling averages for all time windows.
+   * @param series The series name, or a selector with a series name and label filter. Defaults to the default series.
    * @returns Record mapping each time window to its average value. Returns null for empty windows.
    * @example
    * const metrics = new SnapMetrics();
@@ -332,15 +839,16 @@ export class SnapMetrics {
    * const emptyMetrics = new SnapMetrics();
    * emptyMetrics.getAverages(); // { "1m": null, "5m": null, "15m": null }
    */
-  getAverages(): Record<TimeWindow, number | null> {
+  getAverages(
+    series: string | SeriesSelector = DEFAULT_SERIES
+  ): Record<TimeWindow, number | null> {
     if (this.debug) console.log("Calculating averages...");
     this.throttledRemoveExpiredRecords();
 
-    const averages = this.mapWindows((window, key) => {
-      if (window.values.count === 0) return null;
-      const { values } = this.getValues(key as TimeWindow)!;
-      return calculateAverage(values, window.values.sum);
-    });
+    const averages = this.mapDistributions(
+      series,
+      (distribution) => distribution.sum / distribution.count
+    );
 
     if (this.debug)
       console.log("Averages calculated:", JSON.stringify(averages, null, 2));
@@ -350,6 +858,7 @@ export class SnapMetrics {
   /**
    * Returns the middle value for each time window using linear interpolation.
    * @description For an even number of values, uses linear interpolation between the two middle values.
+   * @param series The series name, or a selector with a series name and label filter. Defaults to the default series.
    * @returns Record mapping each time window to its median value. Returns null for empty windows.
    * @example
    * const metrics = new SnapMetrics();
@@ -358,18 +867,15 @@ export class SnapMetrics {
    * metrics.record(3);
    * metrics.getMedians(); // { "1m": 2, "5m": 2, "15m": 2 }
    */
-  getMedians(): Record<TimeWindow, number | null> {
+  getMedians(
+    series: string | SeriesSelector = DEFAULT_SERIES
+  ): Record<TimeWindow, number | null> {
     if (this.debug) console.log("Calculating medians...");
     this.throttledRemoveExpiredRecords();
 
-    const medians = this.mapWindows((window, key) => {
-      if (window.values.count === 0) return null;
-      const { values } = this.getValues(
-        key as TimeWindow,
-        SortRequirement.SORTED
-      )!;
-      return calculatePercentile(values, 50);
-    });
+    const medians = this.mapDistributions(series, (distribution) =>
+      distribution.getPercentile(50)
+    );
 
     if (this.debug)
       console.log("Medians calculated:", JSON.stringify(medians, null, 2));
@@ -379,7 +885,9 @@ export class SnapMetrics {
   /**
    * Returns the value below which the given percentage of observations fall.
    * @param percentile The percentile to calculate (0-100). For example, 95 for 95th percentile.
-   * @description Uses Hyndman and Fan type 7 linear interpolation method for accurate results.
+   * @param series The series name, or a selector with a series name and label filter. Defaults to the default series.
+   * @description Uses Hyndman and Fan type 7 linear interpolation method for accurate results. With approximate
+   * quantiles, or bucketed storage, the value is estimated within the configured relative accuracy instead.
    * @returns Record mapping each time window to its percentile value. Returns null for empty windows.
    * @throws {Error} If percentile is not between 0 and 100.
    * @example
@@ -387,21 +895,19 @@ export class SnapMetrics {
    * // Record some response times...
    * metrics.getPercentiles(95); // Get 95th percentile response times
    */
-  getPercentiles(percentile: number): Record<TimeWindow, number | null> {
+  getPercentiles(
+    percentile: number,
+    series: string | SeriesSelector = DEFAULT_SERIES
+  ): Record<TimeWindow, number | null> {
     if (percentile < 0 || percentile > 100) {
       throw new Error("Percentile must be between 0 and 100");
     }
     if (this.debug) console.log("Calculating percentiles...");
     this.throttledRemoveExpiredRecords();
 
-    const percentiles = this.mapWindows((window, key) => {
-      if (window.values.count === 0) return null;
-      const { values } = this.getValues(
-        key as TimeWindow,
-        SortRequirement.SORTED
-      )!;
-      return calculatePercentile(values, percentile);
-    });
+    const percentiles = this.mapDistributions(series, (distribution) =>
+      distribution.getPercentile(percentile)
+    );
 
     if (this.debug)
       console.log(
@@ -413,6 +919,7 @@ export class SnapMetrics {
 
   /**
    * Returns the smallest value recorded within each time window.
+   * @param series The series name, or a selector with a series name and label filter. Defaults to the default series.
    * @returns Record mapping each time window to its minimum value. Returns null for empty windows.
    * @example
    * const metrics = new SnapMetrics();
@@ -420,18 +927,15 @@ export class SnapMetrics {
    * metrics.record(2);
    * metrics.getMinimums(); // { "1m": 1, "5m": 1, "15m": 1 }
    */
-  getMinimums(): Record<TimeWindow, number | null> {
+  getMinimums(
+    series: string | SeriesSelector = DEFAULT_SERIES
+  ): Record<TimeWindow, number | null> {
     if (this.debug) console.log("Calculating minimums...");
     this.throttledRemoveExpiredRecords();
 
-    const minimums = this.mapWindows((window, key) => {
-      if (window.values.count === 0) return null;
-      const { values, isSorted } = this.getValues(
-        key as TimeWindow,
-        SortRequirement.PREFER_SORTED
-      )!;
-      return isSorted ? values[0]! : calculateMinimum(values);
-    });
+    const minimums = this.mapDistributions(series, (distribution) =>
+      distribution.getMinimum()
+    );
 
     if (this.debug)
       console.log("Minimums calculated:", JSON.stringify(minimums, null, 2));
@@ -440,6 +944,7 @@ export class SnapMetrics {
 
   /**
    * Returns the largest value recorded within each time window.
+   * @param series The series name, or a selector with a series name and label filter. Defaults to the default series.
    * @returns Record mapping each time window to its maximum value. Returns null for empty windows.
    * @example
    * const metrics = new SnapMetrics();
@@ -447,18 +952,15 @@ export class SnapMetrics {
    * metrics.record(2);
    * metrics.getMaximums(); // { "1m": 2, "5m": 2, "15m": 2 }
    */
-  getMaximums(): Record<TimeWindow, number | null> {
+  getMaximums(
+    series: string | SeriesSelector = DEFAULT_SERIES
+  ): Record<TimeWindow, number | null> {
     if (this.debug) console.log("Calculating maximums...");
     this.throttledRemoveExpiredRecords();
 
-    const maximums = this.mapWindows((window, key) => {
-      if (window.values.count === 0) return null;
-      const { values, isSorted } = this.getValues(
-        key as TimeWindow,
-        SortRequirement.PREFER_SORTED
-      )!;
-      return isSorted ? values[values.length - 1]! : calculateMaximum(values);
-    });
+    const maximums = this.mapDistributions(series, (distribution) =>
+      distribution.getMaximum()
+    );
 
     if (this.debug)
       console.log("Maximums calculated:", JSON.stringify(maximums, null, 2));
@@ -468,6 +970,7 @@ export class SnapMetrics {
   /**
    * Returns the standard deviation (square root of variance) for each time window.
    * @description Indicates how spread out values are from their mean.
+   * @param series The series name, or a selector with a series name and label filter. Defaults to the default series.
    * @returns Record mapping each time window to its standard deviation. Returns null for empty windows.
    * @example
    * const metrics = new SnapMetrics();
@@ -476,16 +979,15 @@ export class SnapMetrics {
    * metrics.record(6);
    * metrics.getStandardDeviations(); // { "1m": 1.63, "5m": 1.63, "15m": 1.63 }
    */
-  getStandardDeviations(): Record<TimeWindow, number | null> {
+  getStandardDeviations(
+    series: string | SeriesSelector = DEFAULT_SERIES
+  ): Record<TimeWindow, number | null> {
     if (this.debug) console.log("Calculating standard deviations...");
     this.throttledRemoveExpiredRecords();
 
-    const stdDevs = this.mapWindows((window, key) => {
-      if (window.values.count === 0) return null;
-      const { values } = this.getValues(key as TimeWindow)!;
-      const mean = window.values.sum / window.values.count;
-      return calculateStandardDeviation(values, mean);
-    });
+    const stdDevs = this.mapDistributions(series, (distribution) =>
+      calculateStandardDeviation(distribution.getMoments(), this.varianceMode)
+    );
 
     if (this.debug)
       console.log(
@@ -496,159 +998,1798 @@ export class SnapMetrics {
   }
 
   /**
-   * Returns all metrics for each time window.
-   * @param options Configuration options
-   * @param options.percentiles Array of percentiles to calculate (0-100). Defaults to [90, 95].
-   * @returns Record mapping each time window to its metrics:
-   * - count: Number of values in the window
-   * - sum: Sum of all values
-   * - average: Mean value
-   * - median: 50th percentile
-   * - percentile{N}: Nth percentile values for each requested percentile
-   * - minimum: Smallest value
-   * - maximum: Largest value
-   * - standardDeviation: Standard deviation from mean
+   * Returns the variance (mean squared deviation from the mean) for each time window.
+   * @description Depending on the `variance` option, the population variance (the default) or the sample variance.
+   * @param series The series name, or a selector with a series name and label filter. Defaults to the default series.
+   * @returns Record mapping each time window to its variance. Returns null for empty windows, or windows with a
+   * single value for the sample variance.
    * @example
    * const metrics = new SnapMetrics();
-   * metrics.record(1);
    * metrics.record(2);
-   * metrics.record(3);
-   *
-   * metrics.getMetrics();
-   * // Returns:
-   * // {
-   * //   "1m": {
-   * //     count: 3,
-   * //     sum: 6,
-   * //     average: 2,
-   * //     median: 2,
-   * //     percentile90: 2.8,
-   * //     percentile95: 2.9,
-   * //     minimum: 1,
-   * //     maximum: 3,
-   * //     standardDeviation: 0.816
-   * //   }
-   * // }
+   * metrics.record(4);
+   * metrics.record(6);
+   * metrics.getVariances(); // { "1m": 2.67, "5m": 2.67, "15m": 2.67 }
    */
-  getMetrics(
-    { percentiles = [90, 95] }: { percentiles?: number[] } = {
-      percentiles: [90, 95],
-    }
-  ): Record<TimeWindow, Record<string, number | null>> {
-    if (this.debug) console.log("Calculating metrics...");
+  getVariances(
+    series: string | SeriesSelector = DEFAULT_SERIES
+  ): Record<TimeWindow, number | null> {
+    if (this.debug) console.log("Calculating variances...");
+    this.throttledRemoveExpiredRecords();
 
-    const metrics = {
-      count: this.getCounts(),
-      sum: this.getSums(),
-      average: this.getAverages(),
-      median: this.getMedians(),
-      ...Object.fromEntries(
-        percentiles.map((p) => [`percentile${p}`, this.getPercentiles(p)])
-      ),
-      minimum: this.getMinimums(),
-      maximum: this.getMaximums(),
-      standardDeviation: this.getStandardDeviations(),
-    };
+    const variances = this.mapDistributions(series, (distribution) =>
+      calculateVariance(distribution.getMoments(), this.varianceMode)
+    );
 
-    // Transform structure from metric-first to window-first
-    const transformedMetrics = swapLevels(metrics);
+    if (this.debug)
+      console.log("Variances calculated:", JSON.stringify(variances, null, 2));
+    return variances;
+  }
+
+  /**
+   * Returns the coefficient of variation (standard deviation divided by the mean) for each time window.
+   * @description Compares the spread of series with different scales, e.g. the jitter of fast and slow endpoints.
+   * @param series The series name, or a selector with a series name and label filter. Defaults to the default series.
+   * @returns Record mapping each time window to its coefficient of variation. Returns null for empty windows or a
+   * mean of 0.
+   * @example
+   * const metrics = new SnapMetrics();
+   * metrics.record(2);
+   * metrics.record(4);
+   * metrics.record(6);
+   * metrics.getCoefficientsOfVariation(); // { "1m": 0.41, "5m": 0.41, "15m": 0.41 }
+   */
+  getCoefficientsOfVariation(
+    series: string | SeriesSelector = DEFAULT_SERIES
+  ): Record<TimeWindow, number | null> {
+    if (this.debug) console.log("Calculating coefficients of variation...");
+    this.throttledRemoveExpiredRecords();
+
+    const coefficients = this.mapDistributions(series, (distribution) =>
+      calculateCoefficientOfVariation(
+        distribution.getMoments(),
+        this.varianceMode
+      )
+    );
 
     if (this.debug)
       console.log(
-        "Metrics calculated:",
-        JSON.stringify(transformedMetrics, null, 2)
+        "Coefficients of variation calculated:",
+        JSON.stringify(coefficients, null, 2)
       );
-    return transformedMetrics;
+    return coefficients;
   }
 
   /**
-   * Increments a named counter for tracking frequency across time windows.
-   * @param name - The name of the counter to increment
-   * @param value - Optional amount to increment by (defaults to 1)
+   * Returns the skewness for each time window.
+   * @description Positive when values have a long tail above the mean, such as latencies with occasional slow
+   * requests, negative for a long tail below it and 0 for symmetric values.
+   * @param series The series name, or a selector with a series name and label filter. Defaults to the default series.
+   * @returns Record mapping each time window to its skewness. Returns null for empty windows or windows where all
+   * values are equal.
    * @example
    * const metrics = new SnapMetrics();
-   * metrics.increment('api_calls');  // Increment by 1
-   * metrics.increment('bytes_sent', 1024);  // Increment by specific amount
+   * [1, 1, 1, 10].forEach((value) => metrics.record(value));
+   * metrics.getSkewnesses(); // { "1m": 1.15, "5m": 1.15, "15m": 1.15 }
    */
-  increment(name: string, value: number = 1): void {
-    if (this.debug) console.log(`Incrementing counter ${name} by ${value}`);
-    const timestamp = performance.now();
-
-    for (const window of Object.values(this.windows)) {
-      window.events.timestamps.push({ timestamp, event: name });
-      const currentCount = window.events.counts.get(name) || 0;
-      window.events.counts.set(name, currentCount + value);
-    }
-
+  getSkewnesses(
+    series: string | SeriesSelector = DEFAULT_SERIES
+  ): Record<TimeWindow, number | null> {
+    if (this.debug) console.log("Calculating skewnesses...");
     this.throttledRemoveExpiredRecords();
 
-    if (this.debug) {
+    const skewnesses = this.mapDistributions(series, (distribution) =>
+      calculateSkewness(distribution.getMoments(), this.varianceMode)
+    );
+
+    if (this.debug)
       console.log(
-        "Updated counter values:",
-        JSON.stringify(
-          Object.fromEntries(
-            Object.entries(this.windows).map(([key, window]) => [
-              key,
-              Object.fromEntries(window.events.counts),
-            ])
-          ),
-          null,
-          2
-        )
+        "Skewnesses calculated:",
+        JSON.stringify(skewnesses, null, 2)
       );
-    }
+    return skewnesses;
   }
 
   /**
-   * Returns the current value of all counters for each time window.
-   * @returns Record mapping each time window to a map of counter values.
+   * Returns the excess kurtosis for each time window.
+   * @description Indicates how much of the spread comes from rare outliers: 0 for normally distributed values,
+   * positive for heavier tails and negative for lighter tails.
+   * @param series The series name, or a selector with a series name and label filter. Defaults to the default series.
+   * @returns Record mapping each time window to its excess kurtosis. Returns null for empty windows or windows
+   * where all values are equal.
    * @example
    * const metrics = new SnapMetrics();
-   * metrics.increment('api_calls');
-   * metrics.increment('errors');
-   * metrics.getCounters();
-   * // Returns:
-   * // {
-   * //   "1m": { "api_calls": 1, "errors": 1 },
-   * //   "5m": { "api_calls": 1, "errors": 1 },
-   * //   "15m": { "api_calls": 1, "errors": 1 }
-   * // }
+   * [1, 1, 1, 10].forEach((value) => metrics.record(value));
+   * metrics.getKurtoses(); // { "1m": -0.67, "5m": -0.67, "15m": -0.67 }
    */
-  getCounters(): Record<TimeWindow, Record<string, number>> {
-    if (this.debug) console.log("Getting counter values...");
+  getKurtoses(
+    series: string | SeriesSelector = DEFAULT_SERIES
+  ): Record<TimeWindow, number | null> {
+    if (this.debug) console.log("Calculating kurtoses...");
     this.throttledRemoveExpiredRecords();
 
-    const counters = this.mapWindows((window) =>
-      Object.fromEntries(window.events.counts)
+    const kurtoses = this.mapDistributions(series, (distribution) =>
+      calculateKurtosis(distribution.getMoments(), this.varianceMode)
     );
 
     if (this.debug)
-      console.log("Counter values:", JSON.stringify(counters, null, 2));
-    return counters;
+      console.log("Kurtoses calculated:", JSON.stringify(kurtoses, null, 2));
+    return kurtoses;
   }
 
   /**
-   * Returns the current value of a specific counter for each time window.
-   * @param name The name of the counter to retrieve
-   * @returns Record mapping each time window to the counter's value. Returns null if counter doesn't exist.
+   * Returns the interquartile range (75th minus 25th percentile) for each time window.
+   * @description The spread of the middle half of the values, which outliers do not affect. Estimated like
+   * percentiles with approximate quantiles or `"bucketed"` storage.
+   * @param series The series name, or a selector with a series name and label filter. Defaults to the default series.
+   * @returns Record mapping each time window to its interquartile range. Returns null for empty windows.
    * @example
    * const metrics = new SnapMetrics();
-   * metrics.increment('api_calls');
-   * metrics.getCounter('api_calls'); // { "1m": 1, "5m": 1, "15m": 1 }
+   * [10, 12, 11, 13, 30000].forEach((value) => metrics.record(value));
+   * metrics.getInterquartileRanges(); // { "1m": 2, "5m": 2, "15m": 2 }
    */
-  getCounter(name: string): Record<TimeWindow, number | null> {
-    if (this.debug) console.log(`Getting counter values for ${name}...`);
+  getInterquartileRanges(
+    series: string | SeriesSelector = DEFAULT_SERIES
+  ): Record<TimeWindow, number | null> {
+    if (this.debug) console.log("Calculating interquartile ranges...");
     this.throttledRemoveExpiredRecords();
 
-    const counters = this.mapWindows(
-      (window) => window.events.counts.get(name) ?? null
+    const ranges = this.mapDistributions(
+      series,
+      (distribution) =>
+        distribution.getPercentile(75)! - distribution.getPercentile(25)!
     );
 
     if (this.debug)
       console.log(
-        `Counter values for ${name}:`,
-        JSON.stringify(counters, null, 2)
+        "Interquartile ranges calculated:",
+        JSON.stringify(ranges, null, 2)
       );
-    return counters;
+    return ranges;
+  }
+
+  /**
+   * Returns the median absolute deviation from the median for each time window.
+   * @description A spread of the values that outliers do not affect, without a scale factor. Multiply it by 1.4826
+   * to compare it with the standard deviation of normally distributed values.
+   * @param series The series name, or a selector with a series name and label filter. Defaults to the default series.
+   * @returns Record mapping each time window to its median absolute deviation. Returns null for empty windows and with `"bucketed"` storage, which does not keep the values.
+   * @example
+   * const metrics = new SnapMetrics();
+   * [10, 12, 11, 13, 30000].forEach((value) => metrics.record(value));
+   * metrics.getMedianAbsoluteDeviations(); // { "1m": 1, "5m": 1, "15m": 1 }
+   */
+  getMedianAbsoluteDeviations(
+    series: string | SeriesSelector = DEFAULT_SERIES
+  ): Record<TimeWindow, number | null> {
+    if (this.debug) console.log("Calculating median absolute deviations...");
+    this.throttledRemoveExpiredRecords();
+
+    const deviations = this.mapDistributions(series, (distribution) => {
+      const sortedValues = distribution.getSortedValues();
+      return sortedValues && calculateMedianAbsoluteDeviation(sortedValues);
+    });
+
+    if (this.debug)
+      console.log(
+        "Median absolute deviations calculated:",
+        JSON.stringify(deviations, null, 2)
+      );
+    return deviations;
+  }
+
+  /**
+   * Returns the mean of the values left after dropping the lowest and highest values for each time window.
+   * @param trim Percentage of the values dropped on each side, from 0 up to 50 (exclusive). 10 drops the lowest and
+   * highest 10%.
+   * @param series The series name, or a selector with a series name and label filter. Defaults to the default series.
+   * @returns Record mapping each time window to its trimmed mean. Returns null for empty windows and with `"bucketed"` storage, which does not keep the values.
+   * @throws {Error} If the trim is not between 0 and 50.
+   * @example
+   * const metrics = new SnapMetrics();
+   * [10, 12, 11, 13, 30000].forEach((value) => metrics.record(value));
+   * metrics.getTrimmedMeans(20); // { "1m": 12, "5m": 12, "15m": 12 }
+   */
+  getTrimmedMeans(
+    trim: number,
+    series: string | SeriesSelector = DEFAULT_SERIES
+  ): Record<TimeWindow, number | null> {
+    if (!(trim >= 0 && trim < 50)) {
+      throw new Error("Trim must be between 0 and 50");
+    }
+    if (this.debug) console.log("Calculating trimmed means...");
+    this.throttledRemoveExpiredRecords();
+
+    const means = this.mapDistributions(series, (distribution) => {
+      const sortedValues = distribution.getSortedValues();
+      return sortedValues && calculateTrimmedMean(sortedValues, trim);
+    });
+
+    if (this.debug)
+      console.log("Trimmed means calculated:", JSON.stringify(means, null, 2));
+    return means;
+  }
+
+  /**
+   * Returns the mean after replacing the lowest and highest values with the nearest remaining value for each time window.
+   * @description Unlike a trimmed mean, outliers still count, but only as much as the most extreme value kept.
+   * @param trim Percentage of the values replaced on each side, from 0 up to 50 (exclusive).
+   * @param series The series name, or a selector with a series name and label filter. Defaults to the default series.
+   * @returns Record mapping each time window to its winsorized mean. Returns null for empty windows and with `"bucketed"` storage, which does not keep the values.
+   * @throws {Error} If the trim is not between 0 and 50.
+   * @example
+   * const metrics = new SnapMetrics();
+   * [10, 12, 11, 13, 30000].forEach((value) => metrics.record(value));
+   * metrics.getWinsorizedMeans(20); // { "1m": 12, "5m": 12, "15m": 12 }
+   */
+  getWinsorizedMeans(
+    trim: number,
+    series: string | SeriesSelector = DEFAULT_SERIES
+  ): Record<TimeWindow, number | null> {
+    if (!(trim >= 0 && trim < 50)) {
+      throw new Error("Trim must be between 0 and 50");
+    }
+    if (this.debug) console.log("Calculating winsorized means...");
+    this.throttledRemoveExpiredRecords();
+
+    const means = this.mapDistributions(series, (distribution) => {
+      const sortedValues = distribution.getSortedValues();
+      return sortedValues && calculateWinsorizedMean(sortedValues, trim);
+    });
+
+    if (this.debug)
+      console.log(
+        "Winsorized means calculated:",
+        JSON.stringify(means, null, 2)
+      );
+    return means;
+  }
+
+  /**
+   * Returns the geometric mean (nth root of the product of the values) for each time window.
+   * @description Suits values that multiply, such as growth rates, and is less affected by large outliers than the mean.
+   * @param series The series name, or a selector with a series name and label filter. Defaults to the default series.
+   * @returns Record mapping each time window to its geometric mean. Returns null if a value is not positive.
+   * Returns null for empty windows and with `"bucketed"` storage, which does not keep the values.
+   * @example
+   * const metrics = new SnapMetrics();
+   * [10, 12, 11, 13, 30000].forEach((value) => metrics.record(value));
+   * metrics.getGeometricMeans(); // { "1m": 55.25, "5m": 55.25, "15m": 55.25 }
+   */
+  getGeometricMeans(
+    series: string | SeriesSelector = DEFAULT_SERIES
+  ): Record<TimeWindow, number | null> {
+    if (this.debug) console.log("Calculating geometric means...");
+    this.throttledRemoveExpiredRecords();
+
+    const means = this.mapDistributions(series, (distribution) => {
+      const sortedValues = distribution.getSortedValues();
+      return sortedValues && calculateGeometricMean(sortedValues);
+    });
+
+    if (this.debug)
+      console.log(
+        "Geometric means calculated:",
+        JSON.stringify(means, null, 2)
+      );
+    return means;
+  }
+
+  /**
+   * Returns the harmonic mean (number of values divided by the sum of their reciprocals) for each time window.
+   * @description Suits rates, such as throughput per request, and is barely affected by large outliers.
+   * @param series The series name, or a selector with a series name and label filter. Defaults to the default series.
+   * @returns Record mapping each time window to its harmonic mean. Returns null if a value is not positive.
+   * Returns null for empty windows and with `"bucketed"` storage, which does not keep the values.
+   * @example
+   * const metrics = new SnapMetrics();
+   * [10, 12, 11, 13, 30000].forEach((value) => metrics.record(value));
+   * metrics.getHarmonicMeans(); // { "1m": 14.24, "5m": 14.24, "15m": 14.24 }
+   */
+  getHarmonicMeans(
+    series: string | SeriesSelector = DEFAULT_SERIES
+  ): Record<TimeWindow, number | null> {
+    if (this.debug) console.log("Calculating harmonic means...");
+    this.throttledRemoveExpiredRecords();
+
+    const means = this.mapDistributions(series, (distribution) => {
+      const sortedValues = distribution.getSortedValues();
+      return sortedValues && calculateHarmonicMean(sortedValues);
+    });
+
+    if (this.debug)
+      console.log("Harmonic means calculated:", JSON.stringify(means, null, 2));
+    return means;
+  }
+
+  /**
+   * Returns the number of seconds rates are calculated over for a time window.
+   * @param key - The time window key
+   * @returns Seconds of the full window, or of its elapsed part with "elapsed" rates
+   */
+  private getRateSeconds(key: TimeWindow): number {
+    const duration = this.timeWindowDurations[key]!;
+    if (this.rateMode === "window") return duration / 1000;
+    return Math.min(duration, this.clock() - this.startTime) / 1000;
+  }
+
+  /**
+   * Divides a value by the seconds of each time window.
+   * @param values - Record mapping each time window to a value
+   * @returns Record mapping each time window to the value per second, or null if the value is null or no time has elapsed
+   */
+  private toRates(
+    values: Record<TimeWindow, number | null>
+  ): Record<TimeWindow, number | null> {
+    return this.mapWindows((_, key) => {
+      const value = values[key] ?? null;
+      const seconds = this.getRateSeconds(key);
+      return value === null || seconds <= 0 ? null : value / seconds;
+    });
+  }
+
+  /**
+   * Returns the number of values recorded per second for all time windows.
+   * @description Depending on the `rateMode` option, counts are divided by the duration of each window (the default)
+   * or by the part of it that has elapsed since the instance was created.
+   * @param series The series name, or a selector with a series name and label filter. Defaults to the default series.
+   * @returns Record mapping each time window to its rate. Returns null if no time has elapsed yet with "elapsed" rates.
+   * @example
+   * const metrics = new SnapMetrics();
+   * metrics.record(1);
+   * metrics.record(2);
+   * metrics.getRates(); // { "1m": 0.0333, "5m": 0.00667, "15m": 0.00222 }
+   */
+  getRates(
+    series: string | SeriesSelector = DEFAULT_SERIES
+  ): Record<TimeWindow, number | null> {
+    if (this.debug) console.log("Calculating rates...");
+
+    const rates = this.toRates(this.getCounts(series));
+
+    if (this.debug)
+      console.log("Rates calculated:", JSON.stringify(rates, null, 2));
+    return rates;
+  }
+
+  /**
+   * Returns exponentially weighted moving averages of the values for each half-life.
+   * @description Like load averages, each value weighs half as much one half-life after it was recorded, so the
+   * averages follow recent values and fade out old ones gradually instead of dropping them at a window edge. They
+   * are updated on every `record` in constant memory per series, and are not included in snapshots. Half-lives are
+   * set with the `halfLives` option.
+   * @param series The series name, or a selector with a series name and label filter. Defaults to the default series.
+   * @returns Record mapping each half-life to its moving average. Returns null if the series has no values.
+   * @example
+   * const metrics = new SnapMetrics({ halfLives: ["1m", "5m"] });
+   * metrics.record(10);
+   * // 1 minute later
+   * metrics.record(40);
+   * metrics.getEWMAs(); // { "1m": 30, "5m": 26.04 }
+   */
+  getEWMAs(
+    series: string | SeriesSelector = DEFAULT_SERIES
+  ): Record<TimeWindow, number | null> {
+    if (this.debug) console.log("Calculating moving averages...");
+    this.throttledRemoveExpiredRecords();
+
+    const { series: name = DEFAULT_SERIES, labels = {} } =
+      typeof series === "string" ? { series } : series;
+    const totals = sumDecaying(
+      this.decayingValues,
+      Object.keys(this.halfLives) as TimeWindow[],
+      name,
+      labels,
+      this.clock()
+    );
+    const averages = Object.fromEntries(
+      Object.keys(this.halfLives).map((key) => {
+        const { weight, sum } = totals?.[key as TimeWindow] ?? {
+          weight: 0,
+          sum: 0,
+        };
+        return [key, weight > 0 ? sum / weight : null];
+      })
+    ) as Record<TimeWindow, number | null>;
+
+    if (this.debug)
+      console.log(
+        "Moving averages calculated:",
+        JSON.stringify(averages, null, 2)
+      );
+    return averages;
+  }
+
+  /**
+   * Returns histograms with cumulative bucket counts for all time windows.
+   * @description Each bucket counts the values less than or equal to its bound, keyed by the bound; the
+   * `"+Inf"` bucket counts all values. Unlike percentiles, histograms with the same buckets can be added up
+   * across instances. Bucket counts are exact with `"exact"` storage and estimated within the relative
+   * accuracy of the bound with `"bucketed"` storage.
+   * @param buckets Bucket bounds in increasing order, see `linearBuckets` and `exponentialBuckets`.
+   * @param series The series name, or a selector with a series name and label filter. Defaults to the default series.
+   * @returns Record mapping each time window to its histogram. Returns null for empty windows.
+   * @throws {Error} If the bucket bounds are not finite numbers in increasing order.
+   * @example
+   * const metrics = new SnapMetrics();
+   * [3, 7, 12].forEach((v) => metrics.record(v));
+   * metrics.getHistograms([5, 10]);
+   * // { "1m": { le: { "5": 1, "10": 2, "+Inf": 3 }, sum: 22, count: 3 }, ... }
+   */
+  getHistograms(
+    buckets: number[],
+    series: string | SeriesSelector = DEFAULT_SERIES
+  ): Record<TimeWindow, Histogram | null> {
+    if (
+      buckets.some(
+        (bound, i) =>
+          !Number.isFinite(bound) || bound <= (buckets[i - 1] ?? -Infinity)
+      )
+    ) {
+      throw new Error(
+        "Histogram buckets must be finite numbers in increasing order"
+      );
+    }
+
+    if (this.debug) console.log("Calculating histograms...");
+    this.throttledRemoveExpiredRecords();
+
+    const histograms = this.mapDistributions(series, (distribution) => {
+      const counts = distribution.getCumulativeCounts(buckets);
+      return {
+        le: {
+          ...Object.fromEntries(
+            buckets.map((bound, i) => [String(bound), counts[i]!])
+          ),
+          "+Inf": distribution.count,
+        },
+        sum: distribution.sum,
+        count: distribution.count,
+      };
+    });
+
+    if (this.debug)
+      console.log(
+        "Histograms calculated:",
+        JSON.stringify(histograms, null, 2)
+      );
+    return histograms;
+  }
+
+  /**
+   * Returns all metrics for each time window.
+   * @param options Configuration options
+   * @param options.percentiles Array of percentiles to calculate (0-100). Defaults to [90, 95].
+   * @param options.series The series name. Defaults to the default series.
+   * @param options.labels Only include label sets of the series containing all of these labels.
+   * @param options.robust Robust statistics to include, e.g. ["interquartileRange", "trimmedMean"]. Defaults to none.
+   * @param options.trim Percentage trimmed on each side for "trimmedMean" and "winsorizedMean". Defaults to 10.
+   * @returns Record mapping each time window to its metrics:
+   * - count: Number of values in the window
+   * - rate: Number of values per second, see `getRates()`
+   * - sum: Sum of all values
+   * - average: Mean value
+   * - median: 50th percentile
+   * - percentile{N}: Nth percentile values for each requested percentile
+   * - minimum: Smallest value
+   * - maximum: Largest value
+   * - standardDeviation: Standard deviation from mean
+   * - variance: Variance, see `getVariances()`
+   * - coefficientOfVariation: Standard deviation relative to the mean
+   * - skewness: Asymmetry of the values around the mean
+   * - kurtosis: Excess kurtosis, the weight of the tails
+   * - the requested robust statistics, see `getInterquartileRanges()`, `getMedianAbsoluteDeviations()`,
+   *   `getTrimmedMeans()`, `getWinsorizedMeans()`, `getGeometricMeans()` and `getHarmonicMeans()`
+   * @example
+   * const metrics = new SnapMetrics();
+   * metrics.record(1);
+   * metrics.record(2);
+   * metrics.record(3);
+   *
+   * metrics.getMetrics();
+   * // Returns:
+   * // {
+   * //   "1m": {
+   * //     count: 3,
+   * //     rate: 0.05,
+   * //     sum: 6,
+   * //     average: 2,
+   * //     median: 2,
+   * //     percentile90: 2.8,
+   * //     percentile95: 2.9,
+   * //     minimum: 1,
+   * //     maximum: 3,
+   * //     standardDeviation: 0.816,
+   * //     variance: 0.667,
+   * //     coefficientOfVariation: 0.408,
+   * //     skewness: 0,
+   * //     kurtosis: -1.5
+   * //   }
+   * // }
+   */
+  getMetrics(
+    {
+      percentiles = [90, 95],
+      series: name = DEFAULT_SERIES,
+      labels = {},
+      robust = [],
+      trim = 10,
+    }: {
+      percentiles?: number[];
+      series?: string;
+      labels?: Labels;
+      robust?: RobustStatistic[];
+      trim?: number;
+    } = {
+      percentiles: [90, 95],
+    }
+  ): Record<TimeWindow, Record<string, number | null>> {
+    if (this.debug) console.log("Calculating metrics...");
+    const series: SeriesSelector = { series: name, labels };
+
+    const metrics = {
+      count: this.getCounts(series),
+      rate: this.getRates(series),
+      sum: this.getSums(series),
+      average: this.getAverages(series),
+      median: this.getMedians(series),
+      ...Object.fromEntries(
+        percentiles.map((p) => [
+          `percentile${p}`,
+          this.getPercentiles(p, series),
+        ])
+      ),
+      minimum: this.getMinimums(series),
+      maximum: this.getMaximums(series),
+      standardDeviation: this.getStandardDeviations(series),
+      variance: this.getVariances(series),
+      coefficientOfVariation: this.getCoefficientsOfVariation(series),
+      skewness: this.getSkewnesses(series),
+      kurtosis: this.getKurtoses(series),
+      ...Object.fromEntries(
+        robust.map((statistic) => [
+          statistic,
+          this.getRobustStatistic(statistic, trim, series),
+        ])
+      ),
+    };
+
+    // Transform structure from metric-first to window-first
+    const transformedMetrics = swapLevels(metrics);
+
+    if (this.debug)
+      console.log(
+        "Metrics calculated:",
+        JSON.stringify(transformedMetrics, null, 2)
+      );
+    return transformedMetrics;
+  }
+
+  /**
+   * Returns a robust statistic requested in the `getMetrics()` options.
+   * @throws {Error} If the statistic is unknown.
+   */
+  private getRobustStatistic(
+    statistic: RobustStatistic,
+    trim: number,
+    series: SeriesSelector
+  ): Record<TimeWindow, number | null> {
+    switch (statistic) {
+      case "interquartileRange":
+        return this.getInterquartileRanges(series);
+      case "medianAbsoluteDeviation":
+        return this.getMedianAbsoluteDeviations(series);
+      case "trimmedMean":
+        return this.getTrimmedMeans(trim, series);
+      case "winsorizedMean":
+        return this.getWinsorizedMeans(trim, series);
+      case "geometricMean":
+        return this.getGeometricMeans(series);
+      case "harmonicMean":
+        return this.getHarmonicMeans(series);
+      default:
+        throw new Error(`Unknown robust statistic: ${statistic}`);
+    }
+  }
+
+  /**
+   * Returns all metrics of a series for each group of label sets.
+   * @param options Configuration options
+   * @param options.percentiles Array of percentiles to calculate (0-100). Defaults to [90, 95].
+   * @param options.series The series name. Defaults to the default series.
+   * @param options.labels Only include label sets of the series containing all of these labels.
+   * @param options.robust Robust statistics to include, as for `getMetrics()`. Defaults to none.
+   * @param options.trim Percentage trimmed on each side for "trimmedMean" and "winsorizedMean". Defaults to 10.
+   * @param options.groupBy Label keys to group by. Defaults to every label key, giving one group per label set.
+   * @returns Array with the labels of each group and its metrics, in the same shape as `getMetrics()`.
+   * @example
+   * const metrics = new SnapMetrics();
+   * metrics.record("http_latency", 10, { route: "/users", status: "200" });
+   * metrics.record("http_latency", 30, { route: "/users", status: "500" });
+   * metrics.record("http_latency", 20, { route: "/posts", status: "200" });
+   *
+   * metrics.getMetricsByLabels({ series: "http_latency", groupBy: ["route"] });
+   * // Returns:
+   * // [
+   * //   { labels: { route: "/users" }, metrics: { "1m": { count: 2, average: 20, ... }, ... } },
+   * //   { labels: { route: "/posts" }, metrics: { "1m": { count: 1, average: 20, ... }, ... } }
+   * // ]
+   */
+  getMetricsByLabels({
+    percentiles = [90, 95],
+    series = DEFAULT_SERIES,
+    labels = {},
+    robust,
+    trim,
+    groupBy,
+  }: {
+    percentiles?: number[];
+    series?: string;
+    labels?: Labels;
+    robust?: RobustStatistic[];
+    trim?: number;
+    groupBy?: string[];
+  } = {}): {
+    labels: Labels;
+    metrics: Record<TimeWindow, Record<string, number | null>>;
+  }[] {
+    if (this.debug)
+      console.log(`Calculating metrics by labels for ${series}...`);
+    this.throttledRemoveExpiredRecords();
+
+    const labelSets = this.selectStores({ series, labels }).map(
+      (store) => store.labels
+    );
+
+    const groups = groupLabels(labelSets, groupBy).map((group) => ({
+      labels: normalizeLabels(group),
+      metrics: this.getMetrics({
+        percentiles,
+        series,
+        labels: { ...labels, ...group },
+        robust,
+        trim,
+      }),
+    }));
+
+    if (this.debug)
+      console.log("Metrics by labels:", JSON.stringify(groups, null, 2));
+    return groups;
+  }
+
+  /**
+   * Returns the number of values recorded into each active series for each time window.
+   * @description Series without values in a window are omitted from that window. Counts of labelled series are summed across their label sets.
+   * @returns Record mapping each time window to a map of series names and their value counts.
+   * @example
+   * const metrics = new SnapMetrics();
+   * metrics.record("db_latency", 12);
+   * metrics.record("payload_size", 512);
+   * metrics.getSeries();
+   * // Returns:
+   * // {
+   * //   "1m": { "db_latency": 1, "payload_size": 1 },
+   * //   "5m": { "db_latency": 1, "payload_size": 1 },
+   * //   "15m": { "db_latency": 1, "payload_size": 1 }
+   * // }
+   */
+  getSeries(): Record<TimeWindow, Record<string, number>> {
+    if (this.debug) console.log("Getting series...");
+    this.throttledRemoveExpiredRecords();
+
+    const series = this.mapWindows((_, key) => {
+      const counts: Record<string, number> = {};
+      for (const store of this.stores.values()) {
+        const count = store.getCount(key);
+        if (count > 0) {
+          counts[store.series] = (counts[store.series] ?? 0) + count;
+        }
+      }
+      return counts;
+    });
+
+    if (this.debug) console.log("Series:", JSON.stringify(series, null, 2));
+    return series;
+  }
+
+  /**
+   * Increments a named counter for tracking frequency across time windows.
+   * @param name - The name of the counter to increment
+   * @param value - Optional amount to increment by (defaults to 1)
+   * @param labels - Optional labels, e.g. `{ route: "/users", status: "200" }`
+   * @param options - Optional record options
+   * @param options.timestamp - Time the event occurred on the instance's clock. Defaults to the current time. Events
+   * are inserted in time order and only count towards the windows they fall into.
+   * @throws {Error} If the timestamp is not a finite number or is later than the current time.
+   * @example
+   * const metrics = new SnapMetrics();
+   * metrics.increment('api_calls');  // Increment by 1
+   * metrics.increment('bytes_sent', 1024);  // Increment by specific amount
+   * metrics.increment('api_calls', 1, { route: '/users', status: '200' });  // Increment a labelled counter
+   */
+  increment(
+    name: string,
+    value: number = 1,
+    labels?: Labels,
+    { timestamp: recordedAt }: RecordOptions = {}
+  ): void {
+    const counterKey = getSeriesKey(name, normalizeLabels(labels));
+    if (this.debug)
+      console.log(`Incrementing counter ${counterKey} by ${value}`);
+    const now = this.clock();
+    const timestamp = this.getTimestamp(recordedAt, now);
+
+    for (const history of this.histories.values()) {
+      history.increment(counterKey, timestamp, value);
+    }
+    this.addDecaying(this.decayingCounters, counterKey, timestamp, value);
+
+    for (const key of this.events.insert({
+      timestamp,
+      event: counterKey,
+      value,
+    })) {
+      updateCounter(this.windows[key]!.events, counterKey, value);
+    }
+    if (
+      Object.values(this.timeWindowDurations).some(
+        (duration) => now - timestamp > duration
+      )
+    ) {
+      this.removeExpiredEvents(now); // Already expired in some windows
+    }
+
+    this.throttledRemoveExpiredRecords();
+
+    if (this.debug) {
+      console.log(
+        "Updated counter values:",
+        JSON.stringify(
+          Object.fromEntries(
+            Object.entries(this.windows).map(([key, window]) => [
+              key,
+              Object.fromEntries(window.events.counters),
+            ])
+          ),
+          null,
+          2
+        )
+      );
+    }
+  }
+
+  /**
+   * Returns the current value of all counters for each time window.
+   * @description Values of labelled counters are summed across their label sets.
+   * @returns Record mapping each time window to a map of counter values.
+   * @example
+   * const metrics = new SnapMetrics();
+   * metrics.increment('api_calls');
+   * metrics.increment('errors');
+   * metrics.getCounters();
+   * // Returns:
+   * // {
+   * //   "1m": { "api_calls": 1, "errors": 1 },
+   * //   "5m": { "api_calls": 1, "errors": 1 },
+   * //   "15m": { "api_calls": 1, "errors": 1 }
+   * // }
+   */
+  getCounters(): Record<TimeWindow, Record<string, number>> {
+    if (this.debug) console.log("Getting counter values...");
+    this.throttledRemoveExpiredRecords();
+
+    const counters = this.mapWindows((window) => {
+      const counts: Record<string, number> = {};
+      for (const [counterKey, { sum, compensation }] of window.events
+        .counters) {
+        const { name } = parseSeriesKey(counterKey);
+        counts[name] = (counts[name] ?? 0) + sum + compensation;
+      }
+      return counts;
+    });
+
+    if (this.debug)
+      console.log("Counter values:", JSON.stringify(counters, null, 2));
+    return counters;
+  }
+
+  /**
+   * Returns the current value of a specific counter for each time window.
+   * @param name The name of the counter to retrieve
+   * @param labels Only include label sets of the counter containing all of these labels. Matching label sets are summed.
+   * @returns Record mapping each time window to the counter's value. Returns null if counter doesn't exist.
+   * @example
+   * const metrics = new SnapMetrics();
+   * metrics.increment('api_calls');
+   * metrics.getCounter('api_calls'); // { "1m": 1, "5m": 1, "15m": 1 }
+   * metrics.getCounter('api_calls', { status: '500' }); // { "1m": null, "5m": null, "15m": null }
+   */
+  getCounter(
+    name: string,
+    labels: Labels = {}
+  ): Record<TimeWindow, number | null> {
+    if (this.debug) console.log(`Getting counter values for ${name}...`);
+    this.throttledRemoveExpiredRecords();
+
+    const counters = this.mapWindows(
+      (window) => sumCounter(window.events, name, labels)?.total ?? null
+    );
+
+    if (this.debug)
+      console.log(
+        `Counter values for ${name}:`,
+        JSON.stringify(counters, null, 2)
+      );
+    return counters;
+  }
+
+  /**
+   * Returns the number of events and the total amount of a specific counter for each time window.
+   * @description A counter incremented by amounts other than 1, such as bytes sent, has a total that differs from
+   * its number of events. `getCounter()` returns the total.
+   * @param name The name of the counter
+   * @param labels Only include label sets of the counter containing all of these labels. Matching label sets are summed.
+   * @returns Record mapping each time window to the counter's events and total. Returns null if counter doesn't exist.
+   * @example
+   * const metrics = new SnapMetrics();
+   * metrics.increment('bytes_sent', 1024);
+   * metrics.increment('bytes_sent', 512);
+   * metrics.getCounterDetails('bytes_sent');
+   * // { "1m": { events: 2, total: 1536 }, "5m": { events: 2, total: 1536 }, "15m": { events: 2, total: 1536 } }
+   */
+  getCounterDetails(
+    name: string,
+    labels: Labels = {}
+  ): Record<TimeWindow, CounterDetails | null> {
+    if (this.debug) console.log(`Getting counter details for ${name}...`);
+    this.throttledRemoveExpiredRecords();
+
+    const details = this.mapWindows((window) =>
+      sumCounter(window.events, name, labels)
+    );
+
+    if (this.debug)
+      console.log(
+        `Counter details for ${name}:`,
+        JSON.stringify(details, null, 2)
+      );
+    return details;
+  }
+
+  /**
+   * Returns the value of a specific counter per second for each time window.
+   * @description Depending on the `rateMode` option, counter values are divided by the duration of each window (the
+   * default) or by the part of it that has elapsed since the instance was created.
+   * @param name The name of the counter
+   * @param labels Only include label sets of the counter containing all of these labels.
+   * @returns Record mapping each time window to the counter's rate. Returns null if the counter doesn't exist, or no
+   * time has elapsed yet with "elapsed" rates.
+   * @example
+   * const metrics = new SnapMetrics();
+   * metrics.increment('api_calls', 6);
+   * metrics.getCounterRates('api_calls'); // { "1m": 0.1, "5m": 0.02, "15m": 0.00667 }
+   */
+  getCounterRates(
+    name: string,
+    labels: Labels = {}
+  ): Record<TimeWindow, number | null> {
+    if (this.debug) console.log(`Getting counter rates for ${name}...`);
+
+    const rates = this.toRates(this.getCounter(name, labels));
+
+    if (this.debug)
+      console.log(`Counter rates for ${name}:`, JSON.stringify(rates, null, 2));
+    return rates;
+  }
+
+  /**
+   * Returns exponentially weighted moving averages of the rate of a specific counter for each half-life.
+   * @description Like the rates of a meter, each increment weighs half as much one half-life after it happened, so
+   * the rates follow the recent throughput and fall off gradually when increments stop. A steady rate is reached
+   * after a few half-lives. They are updated on every `increment` in constant memory per counter, and are not
+   * included in snapshots. Half-lives are set with the `halfLives` option.
+   * @param name The name of the counter
+   * @param labels Only include label sets of the counter containing all of these labels. Matching label sets are summed.
+   * @returns Record mapping each half-life to the counter's amount per second. Returns null if the counter doesn't exist.
+   * @example
+   * const metrics = new SnapMetrics();
+   * // One increment per second for an hour
+   * metrics.getCounterEWMARates('api_calls'); // { "1m": 1.01, "5m": 1, "15m": 0.94 }
+   */
+  getCounterEWMARates(
+    name: string,
+    labels: Labels = {}
+  ): Record<TimeWindow, number | null> {
+    if (this.debug) console.log(`Getting counter moving rates for ${name}...`);
+    this.throttledRemoveExpiredRecords();
+
+    const totals = sumDecaying(
+      this.decayingCounters,
+      Object.keys(this.halfLives) as TimeWindow[],
+      name,
+      labels,
+      this.clock()
+    );
+    // Amounts weigh e^(-age / τ) with τ = half-life / ln 2, so a steady rate r sums to r * τ
+    const rates = Object.fromEntries(
+      Object.entries(this.halfLives).map(([key, halfLife]) => [
+        key,
+        totals
+          ? (totals[key as TimeWindow]!.sum * Math.LN2 * 1000) / halfLife
+          : null,
+      ])
+    ) as Record<TimeWindow, number | null>;
+
+    if (this.debug)
+      console.log(
+        `Counter moving rates for ${name}:`,
+        JSON.stringify(rates, null, 2)
+      );
+    return rates;
+  }
+
+  /**
+   * Returns the current value of a specific counter for each group of label sets.
+   * @param name The name of the counter to retrieve
+   * @param options Configuration options
+   * @param options.labels Only include label sets of the counter containing all of these labels.
+   * @param options.groupBy Label keys to group by. Defaults to every label key, giving one group per label set.
+   * @returns Array with the labels of each group and its counter values, in the same shape as `getCounter()`.
+   * @example
+   * const metrics = new SnapMetrics();
+   * metrics.increment('api_calls', 1, { route: '/users', status: '200' });
+   * metrics.increment('api_calls', 1, { route: '/users', status: '500' });
+   * metrics.getCounterByLabels('api_calls', { groupBy: ['status'] });
+   * // Returns:
+   * // [
+   * //   { labels: { status: "200" }, values: { "1m": 1, "5m": 1, "15m": 1 } },
+   * //   { labels: { status: "500" }, values: { "1m": 1, "5m": 1, "15m": 1 } }
+   * // ]
+   */
+  getCounterByLabels(
+    name: string,
+    { labels = {}, groupBy }: { labels?: Labels; groupBy?: string[] } = {}
+  ): { labels: Labels; values: Record<TimeWindow, number | null> }[] {
+    if (this.debug)
+      console.log(`Getting counter values by labels for ${name}...`);
+    this.throttledRemoveExpiredRecords();
+
+    const labelSets = new Map<string, Labels>();
+    for (const window of Object.values(this.windows)) {
+      for (const counterKey of window.events.counters.keys()) {
+        const counter = parseSeriesKey(counterKey);
+        if (counter.name === name && matchLabels(counter.labels, labels)) {
+          labelSets.set(counterKey, counter.labels);
+        }
+      }
+    }
+
+    const groups = groupLabels(Array.from(labelSets.values()), groupBy).map(
+      (group) => ({
+        labels: normalizeLabels(group),
+        values: this.getCounter(name, { ...labels, ...group }),
+      })
+    );
+
+    if (this.debug)
+      console.log(
+        `Counter values by labels for ${name}:`,
+        JSON.stringify(groups, null, 2)
+      );
+    return groups;
+  }
+
+  /**
+   * Sets a gauge to a value, e.g. the current queue depth or number of open connections.
+   * @description Unlike values and counters, a gauge holds its latest value until it changes, and keeps it after
+   * its changes expire.
+   * @param name - The name of the gauge
+   * @param value - The new value
+   * @param labels - Optional labels, e.g. `{ queue: "emails" }`
+   * @example
+   * const metrics = new SnapMetrics();
+   * metrics.set("queue_depth", 42);
+   * metrics.set("queue_depth", 3, { queue: "emails" });
+   */
+  set(name: string, value: number, labels?: Labels): void {
+    const gaugeKey = getSeriesKey(name, normalizeLabels(labels));
+    if (this.debug) console.log(`Setting gauge ${gaugeKey} to ${value}`);
+
+    let gauge = this.gauges.get(gaugeKey);
+    if (!gauge) {
+      gauge = new Gauge();
+      this.gauges.set(gaugeKey, gauge);
+    }
+    gauge.set(this.clock(), value);
+
+    this.throttledRemoveExpiredRecords();
+  }
+
+  /**
+   * Adds a delta to the latest value of a gauge. A gauge that was never set starts at 0.
+   * @param name - The name of the gauge
+   * @param delta - Amount to add, negative to subtract
+   * @param labels - Optional labels, e.g. `{ queue: "emails" }`
+   * @example
+   * const metrics = new SnapMetrics();
+   * metrics.adjust("open_connections", 1); // A connection was opened
+   * metrics.adjust("open_connections", -1); // A connection was closed
+   */
+  adjust(name: string, delta: number, labels?: Labels): void {
+    const gauge = this.gauges.get(getSeriesKey(name, normalizeLabels(labels)));
+    this.set(name, (gauge?.latest ?? 0) + delta, labels);
+  }
+
+  /**
+   * Returns the statistics of a gauge for each time window.
+   * @description The average is weighted by how long each value was held, so a gauge at 100 for 59 seconds and at 0
+   * for 1 second averages about 98 over a minute. Minimums and maximums include the value the window starts with.
+   * Windows that started before the gauge was first set only cover the time since.
+   * @param name - The name of the gauge
+   * @param labels - The labels of the gauge. Unlike counters, only the gauge with exactly these labels is returned.
+   * @returns Record mapping each time window to the gauge's latest value, minimum, maximum and time-weighted
+   * average. Returns null if the gauge was never set.
+   * @example
+   * const metrics = new SnapMetrics();
+   * metrics.set("queue_depth", 100);
+   * // 59 seconds later
+   * metrics.set("queue_depth", 0);
+   * // 1 second later
+   * metrics.getGauge("queue_depth");
+   * // { "1m": { latest: 0, minimum: 0, maximum: 100, average: 98.33 }, ... }
+   */
+  getGauge(
+    name: string,
+    labels: Labels = {}
+  ): Record<TimeWindow, GaugeStats | null> {
+    if (this.debug) console.log(`Getting gauge statistics for ${name}...`);
+    this.throttledRemoveExpiredRecords();
+
+    const gauge = this.gauges.get(getSeriesKey(name, normalizeLabels(labels)));
+    const now = this.clock();
+    const stats = this.mapWindows(
+      (_, key) => gauge?.getStats(now, this.timeWindowDurations[key]!) ?? null
+    );
+
+    if (this.debug)
+      console.log(
+        `Gauge statistics for ${name}:`,
+        JSON.stringify(stats, null, 2)
+      );
+    return stats;
+  }
+
+  /**
+   * Lists every gauge that was set, with its labels and latest value.
+   * @description Each label set of a gauge is listed separately. Use `getGauge()` for the statistics of a gauge in
+   * each time window.
+   * @returns Array with the name, labels and latest value of each gauge, in the order they were first set
+   * @example
+   * const metrics = new SnapMetrics();
+   * metrics.set("queue_depth", 42);
+   * metrics.set("queue_depth", 3, { queue: "emails" });
+   * metrics.getGauges();
+   * // Returns:
+   * // [
+   * //   { name: "queue_depth", labels: {}, latest: 42 },
+   * //   { name: "queue_depth", labels: { queue: "emails" }, latest: 3 }
+   * // ]
+   */
+  getGauges(): { name: string; labels: Labels; latest: number }[] {
+    if (this.debug) console.log("Getting gauges...");
+
+    const gauges = Array.from(this.gauges, ([gaugeKey, gauge]) => ({
+      ...parseSeriesKey(gaugeKey),
+      latest: gauge.latest,
+    }));
+
+    if (this.debug) console.log("Gauges:", JSON.stringify(gauges, null, 2));
+    return gauges;
+  }
+
+  /**
+   * Returns the statistics of the most recent completed tumbling periods.
+   * @description Unlike time windows, which slide, tumbling periods follow each other without overlapping, e.g. one
+   * per calendar minute. The history of a period is kept when it is listed in the `periods` option. Every period
+   * is returned, including those without values, so the history can be drawn as a sparkline. Percentiles and
+   * medians are estimated within the `relativeAccuracy` option; counts, sums, minimums and maximums are exact.
+   * Values and counter events restored or merged from snapshots are not included.
+   * @param period A tumbling period listed in the `periods` option
+   * @param options Configuration options
+   * @param options.periods Number of completed periods to return, at most the `periodHistory` option. Defaults to all.
+   * @param options.percentiles Array of percentiles to calculate (0-100). Defaults to [90, 95].
+   * @param options.series The series name. Defaults to the default series.
+   * @param options.labels Only include label sets of the series containing all of these labels.
+   * @returns Array of period statistics, oldest first, with the start and end of each period and the counter totals
+   * of all counters. Bounds are in wall clock time (`Date.now()`) with the default clock.
+   * @throws {Error} If the period is not kept, the number of periods is not a positive integer, or a percentile is out of range.
+   * @example
+   * const metrics = new SnapMetrics({ periods: ["1m"] });
+   * metrics.record(10);
+   * metrics.increment("api_calls");
+   *
+   * // One minute later
+   * metrics.getHistory("1m", { periods: 1, percentiles: [95] });
+   * // Returns:
+   * // [
+   * //   {
+   * //     start: 1700000040000,
+   * //     end: 1700000100000,
+   * //     count: 1,
+   * //     sum: 10,
+   * //     average: 10,
+   * //     median: 10,
+   * //     percentile95: 10,
+   * //     minimum: 10,
+   * //     maximum: 10,
+   * //     counters: { api_calls: 1 }
+   * //   }
+   * // ]
+   */
+  getHistory(
+    period: TimeWindow,
+    {
+      periods = Infinity,
+      percentiles = [90, 95],
+      series = DEFAULT_SERIES,
+      labels = {},
+    }: {
+      periods?: number;
+      percentiles?: number[];
+      series?: string;
+      labels?: Labels;
+    } = {}
+  ): PeriodSummary[] {
+    if (this.debug) console.log(`Getting history of ${period} periods...`);
+
+    const history = this.histories.get(period);
+    if (!history) {
+      throw new Error(`Unknown period: ${period}`);
+    }
+    if (periods !== Infinity && !(Number.isInteger(periods) && periods > 0)) {
+      throw new Error("Periods must be a positive integer");
+    }
+    if (percentiles.some((p) => p < 0 || p > 100)) {
+      throw new Error("Percentile must be between 0 and 100");
+    }
+
+    const summaries = history.getSummaries(
+      this.clock(),
+      periods,
+      series,
+      labels,
+      percentiles
+    );
+
+    if (this.debug)
+      console.log(
+        `History of ${period} periods:`,
+        JSON.stringify(summaries, null, 2)
+      );
+    return summaries;
+  }
+
+  /**
+   * Compares the short time window of every series and counter label set with a longer baseline window.
+   * @description The average of a series' short window is scored by how many standard deviations it is from the
+   * average of the baseline (its z-score), and the rate of a counter by how many times its baseline rate it is.
+   * The baseline is the part of the baseline window before the short window, so a shift does not dampen its own
+   * score. Rates are divided by the part of each window elapsed since the instance was created, so counters do
+   * not look anomalous right after startup. Only counter rates above the baseline can be anomalous, since rare
+   * events often miss the short window entirely.
+   * @param options Configuration options
+   * @param options.short Recent time window to check
+   * @param options.baseline Longer time window the short one is compared with
+   * @param options.zThreshold Absolute z-score from which a series is anomalous. Defaults to 3.
+   * @param options.ratioThreshold Ratio of the rates from which a counter is anomalous. Defaults to 3.
+   * @param options.minCount Values or events the short window needs to be anomalous. Defaults to 5.
+   * @returns Every series label set with values in the short window and at least 2 before it, and every counter label
+   * set with a positive total in the short window once the instance is older than it, most severe first. The severity is the absolute z-score or ratio
+   * divided by its threshold. Scores are infinite if the short window average differs from baseline values that are
+   * all equal, or a counter had no events before the short window.
+   * @throws {Error} If a window is unknown, the short window is not shorter than the baseline, or a threshold is invalid.
+   * @example
+   * const metrics = new SnapMetrics(["1m", "15m"]);
+   * // 14 minutes of latencies alternating between 90 and 110, then a minute at 150
+   * metrics.getAnomalies({ short: "1m", baseline: "15m" });
+   * // [{ type: "series", name: "http_latency", labels: { route: "/users" }, short: 150, baseline: 100,
+   * //    score: 5, severity: 1.67, anomalous: true }, ...]
+   */
+  getAnomalies({
+    short,
+    baseline,
+    zThreshold = 3,
+    ratioThreshold = 3,
+    minCount = 5,
+  }: AnomalyOptions): Anomaly[] {
+    if (this.debug)
+      console.log(`Detecting anomalies of ${short} against ${baseline}...`);
+    for (const window of [short, baseline]) {
+      if (!(window in this.windows)) {
+        throw new Error(`Unknown time window: ${window}`);
+      }
+    }
+    if (
+      !(this.timeWindowDurations[short]! < this.timeWindowDurations[baseline]!)
+    ) {
+      throw new Error("Short window must be shorter than the baseline");
+    }
+    if (!(zThreshold > 0)) {
+      throw new Error("Z-score threshold must be a positive number");
+    }
+    if (!(ratioThreshold > 1)) {
+      throw new Error("Ratio threshold must be greater than 1");
+    }
+    this.throttledRemoveExpiredRecords();
+
+    const anomalies: Anomaly[] = [];
+
+    for (const store of this.stores.values()) {
+      const count = store.getCount(short);
+      if (count === 0) continue;
+      const recent = this.storage.combine([store], short);
+      const reference = this.storage.combine([store], baseline);
+      const before = { ...reference.getMoments() };
+      subtractMoments(before, recent.getMoments());
+      if (before.count < 2) continue;
+
+      const average = recent.sum / recent.count;
+      const baselineAverage = (reference.sum - recent.sum) / before.count;
+      const score = calculateZScore(
+        average,
+        baselineAverage,
+        calculateStandardDeviation(before, this.varianceMode) ?? 0
+      );
+      const severity = Math.abs(score) / zThreshold;
+      anomalies.push({
+        type: "series",
+        name: store.series,
+        labels: store.labels,
+        short: average,
+        baseline: baselineAverage,
+        score,
+        severity,
+        anomalous: severity >= 1 && count >= minCount,
+      });
+    }
+
+    const elapsed = this.clock() - this.startTime;
+    const shortSeconds =
+      Math.min(this.timeWindowDurations[short]!, elapsed) / 1000;
+    const beforeSeconds =
+      Math.min(this.timeWindowDurations[baseline]!, elapsed) / 1000 -
+      shortSeconds;
+    if (beforeSeconds > 0) {
+      for (const [counterKey, counter] of this.windows[short]!.events
+        .counters) {
+        const total = counter.sum + counter.compensation;
+        if (!(total > 0)) continue;
+        const reference =
+          this.windows[baseline]!.events.counters.get(counterKey)!; // The baseline includes the short window
+        const beforeTotal = Math.max(
+          reference.sum + reference.compensation - total,
+          0
+        );
+
+        const rate = total / shortSeconds;
+        const baselineRate = beforeTotal / beforeSeconds;
+        const score = baselineRate > 0 ? rate / baselineRate : Infinity;
+        const severity = score / ratioThreshold;
+        const { name, labels } = parseSeriesKey(counterKey);
+        anomalies.push({
+          type: "counter",
+          name,
+          labels,
+          short: rate,
+          baseline: baselineRate,
+          score,
+          severity,
+          anomalous: severity >= 1 && counter.events >= minCount,
+        });
+      }
+    }
+
+    anomalies.sort((a, b) => b.severity - a.severity);
+
+    if (this.debug)
+      console.log("Anomalies:", JSON.stringify(anomalies, null, 2));
+    return anomalies;
+  }
+
+  /**
+   * Returns a function reading the current value of a watch rule's stat.
+   * @param rule - The rule
+   * @returns Function returning the stat's value in the rule's window
+   * @throws {Error} If the window or stat is unknown, or a counter stat has no counter name.
+   */
+  private getStatReader(rule: WatchRule): () => number | null {
+    const {
+      stat,
+      window,
+      series = DEFAULT_SERIES,
+      counter,
+      labels = {},
+    } = rule;
+    if (!(window in this.windows)) {
+      throw new Error(`Unknown time window: ${window}`);
+    }
+
+    if (stat === "counter" || stat === "counterRate") {
+      if (counter === undefined) {
+        throw new Error(`Stat ${stat} needs a counter name`);
+      }
+      const getter =
+        stat === "counter"
+          ? () => this.getCounter(counter, labels)
+          : () => this.getCounterRates(counter, labels);
+      // A counter without events in the window counted nothing, so below rules fire when traffic stops
+      return () => {
+        const values = getter();
+        return window in values ? (values[window] ?? 0) : null;
+      };
+    }
+
+    const selector: SeriesSelector = { series, labels };
+    const percentile = /^percentile(\d+(?:\.\d+)?)$/.exec(stat);
+    if (percentile) {
+      const value = Number(percentile[1]);
+      if (value > 100) {
+        throw new Error("Percentile must be between 0 and 100");
+      }
+      return () => this.getPercentiles(value, selector)[window] ?? null;
+    }
+
+    const getters: Record<
+      string,
+      (series: SeriesSelector) => Record<TimeWindow, number | null>
+    > = {
+      count: (s) => this.getCounts(s),
+      rate: (s) => this.getRates(s),
+      sum: (s) => this.getSums(s),
+      average: (s) => this.getAverages(s),
+      median: (s) => this.getMedians(s),
+      minimum: (s) => this.getMinimums(s),
+      maximum: (s) => this.getMaximums(s),
+      standardDeviation: (s) => this.getStandardDeviations(s),
+      variance: (s) => this.getVariances(s),
+      coefficientOfVariation: (s) => this.getCoefficientsOfVariation(s),
+      skewness: (s) => this.getSkewnesses(s),
+      kurtosis: (s) => this.getKurtoses(s),
+      interquartileRange: (s) => this.getInterquartileRanges(s),
+      medianAbsoluteDeviation: (s) => this.getMedianAbsoluteDeviations(s),
+      geometricMean: (s) => this.getGeometricMeans(s),
+      harmonicMean: (s) => this.getHarmonicMeans(s),
+    };
+    const getter = getters[stat];
+    if (!getter) {
+      throw new Error(`Unknown stat: ${stat}`);
+    }
+    return () => getter(selector)[window] ?? null;
+  }
+
+  /**
+   * Watches a rolling stat or counter and calls a handler when it crosses a threshold and when it recovers.
+   * @description The rule is checked every `intervalMS`. It triggers once its stat has been above `above` (or below
+   * `below`) for at least the `for` duration, and resolves once the stat is back past the threshold by at least
+   * `hysteresis`, or the window of a value stat is empty. Counters without events in the window read as 0. Each
+   * transition calls the handler once, so a stat hovering around the threshold does not flap. Errors thrown while
+   * reading the stat or by a callback are passed to `onError`, or emitted as a process warning, instead of crashing
+   * the process. The timer does not keep the process alive.
+   * @param rule The stat, time window and thresholds to watch. `stat` is a `getMetrics()` stat such as
+   * `"average"` or `"percentile95"`, or `"counter"` / `"counterRate"` with a `counter` name.
+   * @param handler Callbacks for triggered and resolved rules, and for errors
+   * @returns Watch with the current state, that can be stopped
+   * @throws {Error} If the rule has an unknown window or stat, no threshold, or invalid durations.
+   * @example
+   * const metrics = new SnapMetrics();
+   * const watch = metrics.watch(
+   *   { stat: "percentile95", window: "1m", above: 500, hysteresis: 50, for: "30s" },
+   *   {
+   *     onTrigger: ({ value }) => console.warn(`p95 latency is ${value} ms`),
+   *     onResolve: () => console.info("p95 latency is back to normal"),
+   *   }
+   * );
+   * watch.stop();
+   */
+  watch(rule: WatchRule, handler: WatchHandler): Watch {
+    const forMS = validateWatchRule(rule);
+    const readStat = this.getStatReader(rule);
+    const state: WatchState = { status: "ok", pendingSince: 0 };
+
+    const check = () => {
+      try {
+        const value = readStat();
+        const transition = updateWatchState(
+          state,
+          rule,
+          value,
+          this.clock(),
+          forMS
+        );
+        if (!transition) return;
+
+        if (this.debug)
+          console.log(
+            `Watch on ${rule.stat} (${rule.window}) ${transition === "trigger" ? "triggered" : "resolved"} at ${value}`
+          );
+        const event = { rule, value, timestamp: Date.now() };
+        if (transition === "trigger") handler.onTrigger?.(event);
+        else handler.onResolve?.(event);
+      } catch (error) {
+        reportError(error, handler.onError);
+      }
+    };
+
+    const timer = setInterval(check, rule.intervalMS ?? 1000);
+    timer.unref?.();
+
+    return {
+      get triggered() {
+        return state.status === "triggered";
+      },
+      stop: () => clearInterval(timer),
+    };
+  }
+
+  /**
+   * Calls a listener periodically with the current metrics and counters.
+   * @description Subscriptions with the same interval share one timer, and at every tick the metrics are computed
+   * once for each distinct set of options, so several sinks (dashboards, log shippers, ...) cost little more than
+   * one and see the same numbers. Snapshots are shared between listeners and should not be modified. Errors thrown
+   * by the listener are passed to `onError`, or emitted as a process warning, so a failing sink does not crash the
+   * process. The timer does not keep the process alive.
+   * @param options Configuration options
+   * @param options.intervalMS How often snapshots are delivered, in milliseconds. Defaults to 1000.
+   * @param options.percentiles Array of percentiles to calculate (0-100). Defaults to [90, 95].
+   * @param options.series The series name. Defaults to the default series.
+   * @param options.labels Only include label sets of the series containing all of these labels.
+   * @param options.onError Called with errors thrown by the listener. Defaults to emitting a process warning.
+   * @param listener Function called with a snapshot holding the timestamp, `getMetrics()` and `getCounters()`
+   * @returns Subscription that can be cancelled with `unsubscribe()`
+   * @throws {Error} If the interval is not a positive number or a percentile is not between 0 and 100.
+   * @example
+   * const metrics = new SnapMetrics();
+   * const subscription = metrics.subscribe({ intervalMS: 1000, percentiles: [99] }, (snapshot) => {
+   *   console.log(snapshot.timestamp, snapshot.metrics["1m"].percentile99, snapshot.counters["1m"]);
+   * });
+   * subscription.unsubscribe();
+   */
+  subscribe(
+    options: SubscriptionOptions,
+    listener: SnapshotListener
+  ): Subscription {
+    if (this.debug)
+      console.log(
+        `Subscribing to metrics every ${options.intervalMS ?? 1000} ms`
+      );
+    return this.scheduler.subscribe(options, listener);
+  }
+
+  /**
+   * Adds a time window at runtime, e.g. a short diagnostic window during an incident.
+   * @description The new window is filled with the values, counter events and gauge changes still held for the
+   * existing windows. Backfill is complete when the new window is not longer than the longest existing window,
+   * or the instance has not been running for longer than it. Otherwise values that already expired are missing
+   * until the window fills up.
+   * @param window Time window, formatted as `<integer><unit>` where unit is `s`, `m`, or `h`
+   * @returns True if the window was completely backfilled
+   * @throws {Error} If the time window is invalid or already exists.
+   * @example
+   * const metrics = new SnapMetrics(["1m", "5m", "15m"]);
+   * metrics.addTimeWindow("30s"); // true
+   * metrics.getAverages(); // { "1m": ..., "5m": ..., "15m": ..., "30s": ... }
+   */
+  addTimeWindow(window: TimeWindow): boolean {
+    const duration = parseTimeWindow(window);
+    if (window in this.windows) {
+      throw new Error(`Time window already exists: ${window}`);
+    }
+    if (this.debug) console.log(`Adding time window ${window}...`);
+
+    this.removeExpiredRecords();
+    const now = this.clock();
+    const longest = Math.max(...Object.values(this.timeWindowDurations));
+
+    // Stores read the durations of their windows from the shared durations
+    this.timeWindowDurations[window] = duration;
+    for (const store of this.stores.values()) {
+      store.addWindow(window, now);
+    }
+
+    const events: EventMetrics = { counters: new Map() };
+    for (const { event, value } of this.events.addWindow(window, now)) {
+      updateCounter(events, event, value);
+    }
+    this.windows[window] = { events };
+
+    this.snapshotOptions.timeWindows = [
+      ...this.snapshotOptions.timeWindows,
+      window,
+    ];
+
+    const complete = duration <= longest || now - this.startTime <= longest;
+    if (this.debug)
+      console.log(
+        `Added time window ${window}, ${complete ? "completely" : "partly"} backfilled`
+      );
+    return complete;
+  }
+
+  /**
+   * Removes a time window at runtime, along with the values only it still held.
+   * @description Watches on the removed window resolve at their next check.
+   * @param window The time window to remove
+   * @throws {Error} If the time window does not exist or is the last one.
+   * @example
+   * const metrics = new SnapMetrics(["1m", "5m", "15m"]);
+   * metrics.removeTimeWindow("15m");
+   * metrics.getAverages(); // { "1m": ..., "5m": ... }
+   */
+  removeTimeWindow(window: TimeWindow): void {
+    if (!(window in this.windows)) {
+      throw new Error(`Unknown time window: ${window}`);
+    }
+    if (Object.keys(this.windows).length === 1) {
+      throw new Error("Cannot remove the last time window");
+    }
+    if (this.debug) console.log(`Removing time window ${window}...`);
+
+    delete this.windows[window];
+    delete this.timeWindowDurations[window];
+    this.events.removeWindow(window);
+    for (const store of this.stores.values()) {
+      store.removeWindow(window);
+    }
+    this.snapshotOptions.timeWindows = this.snapshotOptions.timeWindows.filter(
+      (key) => key !== window
+    );
+
+    this.removeExpiredRecords();
+  }
+
+  /**
+   * Returns the state of all time windows as a serializable snapshot.
+   * @description The snapshot holds the recorded values, counter events and gauge changes with their ages, along
+   * with the options needed to restore it, and can be stored with `JSON.stringify()`. Use
+   * `SnapMetrics.fromSnapshot()` to restore it, e.g. after a process restart.
+   *
+   * With `since`, the snapshot is a delta holding only the values, counter events and gauge changes recorded after
+   * a previous snapshot, which can be merged into another instance without counting anything twice. Pass
+   * `-Infinity` for the first delta, then the `cursor` of the previous delta. Cursors are only valid within the same
+   * process. With `"bucketed"` storage, a delta ends at the last completed time slice.
+   * @param options Configuration options
+   * @param options.since Cursor of the previous delta, to only include what was recorded after it.
+   * @returns Versioned snapshot of all series, counters and gauges, with a cursor if `since` was given
+   * @example
+   * const metrics = new SnapMetrics();
+   * metrics.record(1);
+   * fs.writeFileSync("metrics.json", JSON.stringify(metrics.toSnapshot()));
+   *
+   * const delta = metrics.toSnapshot({ since: -Infinity }); // Holds the value 1
+   * metrics.record(2);
+   * metrics.toSnapshot({ since: delta.cursor }); // Only holds the value 2
+   */
+  toSnapshot({ since }: { since?: number } = {}): Snapshot {
+    if (this.debug) console.log("Taking snapshot...");
+    this.throttledRemoveExpiredRecords();
+    const now = this.clock();
+    const range =
+      since === undefined
+        ? undefined
+        : { since, until: this.storage.getSnapshotCursor(now) };
+
+    const series = Array.from(this.stores.values()).map((store) => ({
+      series: store.series,
+      labels: store.labels,
+      data: store.toSnapshot(now, range),
+    }));
+
+    // The log holds the events of all windows once, they are sorted back into the windows on load. Walk back from
+    // the newest event, so a delta only visits the events it includes
+    const counters = new Map<string, Snapshot["counters"][number]>();
+    for (let i = this.events.length - 1; i >= 0; i--) {
+      const { timestamp, event, value } = this.events.peekAt(i)!;
+      if (range && timestamp < range.since) break;
+      if (range && timestamp >= range.until) continue;
+      const counter = counters.get(event) ?? {
+        ...parseSeriesKey(event),
+        events: [],
+      };
+      counters.set(event, counter);
+      counter.events.push([now - timestamp, value]);
+    }
+    counters.forEach((counter) => counter.events.reverse()); // Oldest first
+
+    const gauges: Snapshot["gauges"] = [];
+    for (const [gaugeKey, gauge] of this.gauges) {
+      const changes = gauge.toSnapshot(now, range);
+      if (changes.length) {
+        gauges.push({ ...parseSeriesKey(gaugeKey), changes });
+      }
+    }
+
+    const snapshot: Snapshot = {
+      version: SNAPSHOT_VERSION,
+      createdAt: Date.now(),
+      options: { ...this.snapshotOptions },
+      uptime: now - this.startTime,
+      series,
+      counters: Array.from(counters.values()),
+      gauges,
+      ...(range && { cursor: range.until }),
+    };
+
+    if (this.debug)
+      console.log(
+        `Snapshot taken with ${series.length} series, ${counters.size} counters and ${gauges.length} gauges`
+      );
+    return snapshot;
+  }
+
+  /**
+   * Restores an instance from a snapshot returned by `toSnapshot()`.
+   * @description Timestamps are re-based onto the current process' clock, taking the wall clock time elapsed since
+   * the snapshot was taken into account, so values that expired in the meantime are dropped on load.
+   * @param snapshot The snapshot, e.g. parsed from JSON
+   * @param options Options that are not part of the snapshot
+   * @param options.removeExpiredRecordsThrottlingMS Throttle interval in milliseconds or false to disable throttling. Defaults to 100.
+   * @param options.rateMode How rates are calculated, "window" or "elapsed". Defaults to "window".
+   * @param options.variance Whether variances and related statistics are "population" or "sample" statistics. Defaults to "population".
+   * @param options.clock Returns the current time in milliseconds. Defaults to performance.now().
+   * @param options.debug Enables logging for debugging. Defaults to false.
+   * @returns A new instance with the time windows, options and values of the snapshot
+   * @throws {Error} If the snapshot is invalid or has an unsupported version.
+   * @example
+   * const metrics = SnapMetrics.fromSnapshot(
+   *   JSON.parse(fs.readFileSync("metrics.json", "utf8"))
+   * );
+   */
+  static fromSnapshot(
+    snapshot: Snapshot,
+    options: Pick<
+      SnapMetricsOptions,
+      | "removeExpiredRecordsThrottlingMS"
+      | "rateMode"
+      | "variance"
+      | "clock"
+      | "debug"
+    > = {}
+  ): SnapMetrics {
+    validateSnapshot(snapshot);
+    const metrics = new SnapMetrics({ ...snapshot.options, ...options });
+    metrics.loadSnapshot(snapshot);
+    return metrics;
+  }
+
+  /**
+   * Adds the values, counters and gauges of another instance or snapshot to this instance.
+   * @description Counts, sums and counters are added up, and distributions are combined from the values themselves,
+   * so minimums, maximums and percentiles are those of all values together. Use it to aggregate the metrics of
+   * several workers or processes, instead of averaging their averages. Gauge changes are inserted in time order,
+   * so a gauge set by several sources holds the value set last by any of them; label gauges per source, e.g. with
+   * a worker id, to keep them apart.
+   * @param source Another instance, or a snapshot returned by `toSnapshot()`, with the same time windows and storage options
+   * @throws {Error} If the snapshot is invalid, or the time windows or storage options differ.
+   * @example
+   * const metrics = new SnapMetrics();
+   * metrics.record(1);
+   * const other = new SnapMetrics();
+   * other.record(3);
+   * metrics.merge(other);
+   * metrics.getAverages(); // { "1m": 2, "5m": 2, "15m": 2 }
+   */
+  merge(source: SnapMetrics | Snapshot): void {
+    const snapshot =
+      source instanceof SnapMetrics ? source.toSnapshot() : source;
+    validateSnapshot(snapshot);
+
+    const { timeWindows, storage, bucketDurationMS, relativeAccuracy } =
+      snapshot.options;
+    const ownOptions = this.snapshotOptions;
+    if (
+      timeWindows.length !== ownOptions.timeWindows.length ||
+      !timeWindows.every((window) => ownOptions.timeWindows.includes(window))
+    ) {
+      throw new Error("Cannot merge metrics with different time windows");
+    }
+    if (storage !== ownOptions.storage) {
+      throw new Error("Cannot merge metrics with different storage modes");
+    }
+    if (
+      storage === "bucketed" &&
+      (bucketDurationMS !== ownOptions.bucketDurationMS ||
+        relativeAccuracy !== ownOptions.relativeAccuracy)
+    ) {
+      throw new Error(
+        "Cannot merge bucketed metrics with different bucket durations or relative accuracies"
+      );
+    }
+
+    if (this.debug)
+      console.log(
+        `Merging ${snapshot.series.length} series, ${snapshot.counters.length} counters and ${snapshot.gauges.length} gauges...`
+      );
+    this.loadSnapshot(snapshot);
+  }
+
+  /**
+   * Creates an instance holding the values and counters of several instances or snapshots.
+   * @param sources Instances or snapshots with the same time windows and storage options
+   * @param options Options that are not part of the snapshots
+   * @param options.removeExpiredRecordsThrottlingMS Throttle interval in milliseconds or false to disable throttling. Defaults to 100.
+   * @param options.rateMode How rates are calculated, "window" or "elapsed". Defaults to "window".
+   * @param options.variance Whether variances and related statistics are "population" or "sample" statistics. Defaults to "population".
+   * @param options.clock Returns the current time in milliseconds. Defaults to performance.now().
+   * @param options.debug Enables logging for debugging. Defaults to false.
+   * @returns A new instance with the time windows and storage options of the first source
+   * @throws {Error} If no sources are given, or they cannot be merged.
+   * @example
+   * const combined = SnapMetrics.combine(workerSnapshots);
+   * combined.getMetrics(); // Metrics of all workers together
+   */
+  static combine(
+    sources: (SnapMetrics | Snapshot)[],
+    options: Pick<
+      SnapMetricsOptions,
+      | "removeExpiredRecordsThrottlingMS"
+      | "rateMode"
+      | "variance"
+      | "clock"
+      | "debug"
+    > = {}
+  ): SnapMetrics {
+    const [first, ...others] = sources;
+    if (!first) {
+      throw new Error("Cannot combine an empty list of metrics");
+    }
+
+    const combined = SnapMetrics.fromSnapshot(
+      first instanceof SnapMetrics ? first.toSnapshot() : first,
+      options
+    );
+    others.forEach((source) => combined.merge(source));
+    return combined;
+  }
+
+  /**
+   * Adds the values, counter events and gauge changes of a snapshot to the time windows.
+   * @param snapshot - The snapshot to load
+   */
+  private loadSnapshot(snapshot: Snapshot) {
+    // Ages are relative to when the snapshot was taken, which is this long ago on the current clock
+    const elapsed = Math.max(Date.now() - snapshot.createdAt, 0);
+    const snapshotNow = this.clock() - elapsed;
+
+    // Rates over the elapsed time include the time the values were recorded in
+    this.startTime = Math.min(this.startTime, snapshotNow - snapshot.uptime);
+
+    for (const { series, labels, data } of snapshot.series) {
+      this.getStore(series, normalizeLabels(labels)).load(data, snapshotNow);
+    }
+
+    for (const { name, labels, events } of snapshot.counters) {
+      const counterKey = getSeriesKey(name, normalizeLabels(labels));
+      for (const [age, value] of events) {
+        const event = {
+          timestamp: snapshotNow - age,
+          event: counterKey,
+          value,
+        };
+        for (const key of this.events.insert(event)) {
+          updateCounter(this.windows[key]!.events, counterKey, value);
+        }
+      }
+    }
+
+    for (const { name, labels, changes } of snapshot.gauges) {
+      const gaugeKey = getSeriesKey(name, normalizeLabels(labels));
+      let gauge = this.gauges.get(gaugeKey);
+      if (!gauge) {
+        gauge = new Gauge();
+        this.gauges.set(gaugeKey, gauge);
+      }
+      gauge.load(changes, snapshotNow);
+    }
+
+    this.removeExpiredRecords();
   }
 }
@@ -0,0 +1,155 @@
+/**
+ * Count, mean and sums of the powers of the deviations from the mean (central moments) of a set of values.
+ * @description Values are added and removed one at a time (Welford's method, extended to the third and fourth
+ * moments), and moments of separate sets combine into the moments of their union (Pébay's formulas), so
+ * statistics based on them are read without visiting the values.
+ */
+export interface Moments {
+  count: number;
+  mean: number;
+  m2: number; // Sum of squared deviations from the mean
+  m3: number; // Sum of cubed deviations from the mean
+  m4: number; // Sum of deviations from the mean to the fourth power
+}
+
+export const createMoments = (): Moments => ({
+  count: 0,
+  mean: 0,
+  m2: 0,
+  m3: 0,
+  m4: 0,
+});
+
+export const addToMoments = (moments: Moments, value: number): void => {
+  const previousCount = moments.count;
+  const count = previousCount + 1;
+  const delta = value - moments.mean;
+  const deltaN = delta / count;
+  const deltaN2 = deltaN * deltaN;
+  const term = delta * deltaN * previousCount;
+
+  moments.count = count;
+  moments.mean += deltaN;
+  moments.m4 +=
+    term * deltaN2 * (count * count - 3 * count + 3) +
+    6 * deltaN2 * moments.m2 -
+    4 * deltaN * moments.m3;
+  moments.m3 += term * deltaN * (count - 2) - 3 * deltaN * moments.m2;
+  moments.m2 += term;
+};
+
+/**
+ * Removes a value that was added before, reversing `addToMoments`.
+ */
+export const removeFromMoments = (moments: Moments, value: number): void => {
+  const count = moments.count;
+  if (count <= 1) {
+    Object.assign(moments, createMoments()); // Start over without floating point drift
+    return;
+  }
+
+  const previousCount = count - 1;
+  const mean = (count * moments.mean - value) / previousCount;
+  const delta = value - mean;
+  const deltaN = delta / count;
+  const deltaN2 = deltaN * deltaN;
+  const term = delta * deltaN * previousCount;
+
+  moments.count = previousCount;
+  moments.mean = mean;
+  moments.m2 = Math.max(moments.m2 - term, 0);
+  moments.m3 -= term * deltaN * (count - 2) - 3 * deltaN * moments.m2;
+  moments.m4 = Math.max(
+    moments.m4 -
+      term * deltaN2 * (count * count - 3 * count + 3) -
+      6 * deltaN2 * moments.m2 +
+      4 * deltaN * moments.m3,
+    0
+  );
+};
+
+/**
+ * Adds the moments of another set of values.
+ */
+export const mergeMoments = (target: Moments, source: Moments): void => {
+  const countA = target.count;
+  const countB = source.count;
+  if (countB === 0) return;
+  if (countA === 0) {
+    Object.assign(target, source);
+    return;
+  }
+
+  const count = countA + countB;
+  const delta = source.mean - target.mean;
+  const delta2 = delta * delta;
+  const product = countA * countB;
+
+  const m4 =
+    target.m4 +
+    source.m4 +
+    (delta2 *
+      delta2 *
+      product *
+      (countA * countA - product + countB * countB)) /
+      (count * count * count) +
+    (6 * delta2 * (countA * countA * source.m2 + countB * countB * target.m2)) /
+      (count * count) +
+    (4 * delta * (countA * source.m3 - countB * target.m3)) / count;
+  const m3 =
+    target.m3 +
+    source.m3 +
+    (delta2 * delta * product * (countA - countB)) / (count * count) +
+    (3 * delta * (countA * source.m2 - countB * target.m2)) / count;
+
+  target.m2 += source.m2 + (delta2 * product) / count;
+  target.m3 = m3;
+  target.m4 = m4;
+  target.mean += (delta * countB) / count;
+  target.count = count;
+};
+
+/**
+ * Removes the moments of a subset of the values, reversing `mergeMoments`.
+ */
+export const subtractMoments = (target: Moments, source: Moments): void => {
+  const count = target.count;
+  const countB = source.count;
+  if (countB === 0) return;
+  const countA = count - countB;
+  if (countA <= 0) {
+    Object.assign(target, createMoments());
+    return;
+  }
+
+  const mean = (count * target.mean - countB * source.mean) / countA;
+  const delta = source.mean - mean;
+  const delta2 = delta * delta;
+  const product = countA * countB;
+
+  const m2 = Math.max(target.m2 - source.m2 - (delta2 * product) / count, 0);
+  const m3 =
+    target.m3 -
+    source.m3 -
+    (delta2 * delta * product * (countA - countB)) / (count * count) -
+    (3 * delta * (countA * source.m2 - countB * m2)) / count;
+  const m4 = Math.max(
+    target.m4 -
+      source.m4 -
+      (delta2 *
+        delta2 *
+        product *
+        (countA * countA - product + countB * countB)) /
+        (count * count * count) -
+      (6 * delta2 * (countA * countA * source.m2 + countB * countB * m2)) /
+        (count * count) -
+      (4 * delta * (countA * source.m3 - countB * m3)) / count,
+    0
+  );
+
+  target.count = countA;
+  target.mean = mean;
+  target.m2 = m2;
+  target.m3 = m3;
+  target.m4 = m4;
+};
\ No newline at end of file
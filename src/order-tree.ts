@@ -0,0 +1,184 @@
+interface TreeNode {
+  value: number;
+  count: number; // Occurrences of the value
+  size: number; // Occurrences of all values in the subtree
+  height: number;
+  left: TreeNode | null;
+  right: TreeNode | null;
+}
+
+const getSize = (node: TreeNode | null): number => node?.size ?? 0;
+
+const getHeight = (node: TreeNode | null): number => node?.height ?? 0;
+
+const update = (node: TreeNode): TreeNode => {
+  node.size = getSize(node.left) + node.count + getSize(node.right);
+  node.height = Math.max(getHeight(node.left), getHeight(node.right)) + 1;
+  return node;
+};
+
+const rotateRight = (node: TreeNode): TreeNode => {
+  const left = node.left!;
+  node.left = left.right;
+  left.right = update(node);
+  return update(left);
+};
+
+const rotateLeft = (node: TreeNode): TreeNode => {
+  const right = node.right!;
+  node.right = right.left;
+  right.left = update(node);
+  return update(right);
+};
+
+/**
+ * Restores the height balance of a node whose subtrees differ in height by at most two.
+ */
+const balance = (node: TreeNode): TreeNode => {
+  update(node);
+  const difference = getHeight(node.left) - getHeight(node.right);
+  if (difference > 1) {
+    if (getHeight(node.left!.left) < getHeight(node.left!.right)) {
+      node.left = rotateLeft(node.left!);
+    }
+    return rotateRight(node);
+  }
+  if (difference < -1) {
+    if (getHeight(node.right!.right) < getHeight(node.right!.left)) {
+      node.right = rotateRight(node.right!);
+    }
+    return rotateLeft(node);
+  }
+  return node;
+};
+
+const insertNode = (node: TreeNode | null, value: number): TreeNode => {
+  if (!node) {
+    return { value, count: 1, size: 1, height: 1, left: null, right: null };
+  }
+  if (value < node.value) node.left = insertNode(node.left, value);
+  else if (value > node.value) node.right = insertNode(node.right, value);
+  else node.count++;
+  return balance(node);
+};
+
+/**
+ * Detaches the smallest node of a subtree.
+ * @returns The remaining subtree and the detached node
+ */
+const removeMinimum = (node: TreeNode): [TreeNode | null, TreeNode] => {
+  if (!node.left) return [node.right, node];
+  const [left, minimum] = removeMinimum(node.left);
+  node.left = left;
+  return [balance(node), minimum];
+};
+
+const removeNode = (node: TreeNode | null, value: number): TreeNode | null => {
+  if (!node) return null;
+  if (value < node.value) {
+    node.left = removeNode(node.left, value);
+  } else if (value > node.value) {
+    node.right = removeNode(node.right, value);
+  } else if (node.count > 1) {
+    node.count--;
+  } else {
+    if (!node.left || !node.right) return node.left ?? node.right;
+    // Replace the node with the smallest value of its right subtree
+    const [right, successor] = removeMinimum(node.right);
+    successor.left = node.left;
+    successor.right = right;
+    return balance(successor);
+  }
+  return balance(node);
+};
+
+/**
+ * Sorted multiset of numbers that finds the value at any rank in logarithmic time (an order statistic tree).
+ * @description A height-balanced binary search tree, with one node per distinct value counting its occurrences.
+ * Every node knows the number of values in its subtree, so values are found by rank without visiting the
+ * values before them. Inserting and removing values also take logarithmic time, so the tree can follow a time
+ * window as values are recorded and expire.
+ */
+export class OrderStatisticTree {
+  private root: TreeNode | null = null;
+
+  /**
+   * Number of values in the tree, counting duplicates.
+   */
+  get size(): number {
+    return getSize(this.root);
+  }
+
+  insert(value: number): void {
+    this.root = insertNode(this.root, value);
+  }
+
+  /**
+   * Removes one occurrence of a value.
+   */
+  remove(value: number): void {
+    this.root = removeNode(this.root, value);
+  }
+
+  /**
+   * Returns the value at a rank.
+   * @param rank Number of smaller values, counting duplicates, from 0 to size - 1
+   * @returns The value, or undefined if the rank is out of range
+   */
+  select(rank: number): number | undefined {
+    let node = this.root;
+    let remaining = rank;
+    while (node) {
+      const leftSize = getSize(node.left);
+      if (remaining < leftSize) {
+        node = node.left;
+      } else if (remaining < leftSize + node.count) {
+        return node.value;
+      } else {
+        remaining -= leftSize + node.count;
+        node = node.right;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Counts the values less than or equal to a bound.
+   */
+  countAtMost(bound: number): number {
+    let node = this.root;
+    let count = 0;
+    while (node) {
+      if (bound < node.value) {
+        node = node.left;
+      } else {
+        count += getSize(node.left) + node.count;
+        node = node.right;
+      }
+    }
+    return count;
+  }
+
+  getMinimum(): number | undefined {
+    return this.select(0);
+  }
+
+  getMaximum(): number | undefined {
+    return this.select(this.size - 1);
+  }
+
+  /**
+   * Returns every value in increasing order, including duplicates.
+   */
+  toArray(): number[] {
+    const values: number[] = [];
+    const visit = (node: TreeNode | null) => {
+      if (!node) return;
+      visit(node.left);
+      for (let i = 0; i < node.count; i++) values.push(node.value);
+      visit(node.right);
+    };
+    visit(this.root);
+    return values;
+  }
+}
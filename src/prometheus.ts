@@ -0,0 +1,359 @@
+import type { Labels, SnapMetrics, TimeWindow } from "./index.js";
+
+export interface PrometheusOptions {
+  prefix?: string; // Prepended to every metric name, e.g. "myapp_".
+  percentiles?: number[]; // Percentiles exported as summary quantiles, defaults to [50, 90, 95, 99].
+  buckets?: number[]; // Bucket bounds to export series as histograms instead of summaries.
+  windows?: TimeWindow[]; // Time windows to export, defaults to all.
+  series?: string[]; // Series to export, defaults to all. Counters and gauges are always exported.
+}
+
+// Window statistics exported as gauges, mapped to their metric name suffix
+const GAUGE_STATS = {
+  average: "average",
+  minimum: "minimum",
+  maximum: "maximum",
+  standardDeviation: "standard_deviation",
+} as const;
+
+// Window statistics of gauges, exported next to their latest value
+const GAUGE_WINDOW_STATS = ["average", "minimum", "maximum"] as const;
+
+// Labels added to the samples, user labels with these names are renamed to `exported_<name>`
+const RESERVED_LABELS = ["window", "quantile", "le"];
+
+/**
+ * Converts a name into a valid Prometheus metric name.
+ * @param name Name to sanitize
+ * @returns Name containing only `[a-zA-Z0-9_:]` and not starting with a digit
+ */
+const sanitizeMetricName = (name: string): string => {
+  const sanitized = name.replace(/[^a-zA-Z0-9_:]/g, "_");
+  return /^[0-9]/.test(sanitized) ? `_${sanitized}` : sanitized;
+};
+
+/**
+ * Converts a name into a valid Prometheus label name.
+ * @param name Name to sanitize
+ * @returns Name containing only `[a-zA-Z0-9_]` and not starting with a digit
+ */
+const sanitizeLabelName = (name: string): string => {
+  const sanitized = name.replace(/[^a-zA-Z0-9_]/g, "_");
+  return /^[0-9]/.test(sanitized) ? `_${sanitized}` : sanitized;
+};
+
+/**
+ * Escapes a label value for the text exposition format.
+ * @param value Label value
+ * @returns Value with backslashes, double quotes and line feeds escaped
+ */
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+/**
+ * Escapes a HELP docstring for the text exposition format.
+ * @param help Docstring
+ * @returns Docstring with backslashes and line feeds escaped
+ */
+const escapeHelp = (help: string): string =>
+  help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+
+/**
+ * Formats a sample value, spelling out infinities the way Prometheus expects.
+ * @param value Sample value
+ * @returns Formatted value
+ */
+const formatValue = (value: number): string => {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+};
+
+/**
+ * Formats a percentile as a quantile without floating-point noise, e.g. 99.9 as "0.999".
+ * @param percentile Percentile between 0 and 100
+ * @returns Quantile between 0 and 1
+ */
+const formatQuantile = (percentile: number): string =>
+  (percentile / 100).toFixed(10).replace(/\.?0+$/, "");
+
+/**
+ * Adds the window label to the labels of a series, counter or gauge, renaming labels that clash with the added ones.
+ * @param labels Labels of the series, counter or gauge
+ * @param window Time window of the sample, omitted for the latest value of a gauge
+ * @returns Sample labels
+ */
+const getSampleLabels = (labels: Labels, window?: string): Labels => ({
+  ...Object.fromEntries(
+    Object.entries(labels).map(([key, value]) => [
+      RESERVED_LABELS.includes(sanitizeLabelName(key))
+        ? `exported_${key}`
+        : key,
+      value,
+    ])
+  ),
+  ...(window !== undefined && { window }),
+});
+
+/**
+ * Formats a sample line.
+ * @param name Metric name
+ * @param labels Sample labels
+ * @param value Sample value
+ * @returns Sample line
+ */
+const formatSample = (name: string, labels: Labels, value: number): string => {
+  const pairs = Object.entries(labels).map(
+    ([key, labelValue]) =>
+      `${sanitizeLabelName(key)}="${escapeLabelValue(labelValue)}"`
+  );
+  return `${name}${pairs.length ? `{${pairs.join(",")}}` : ""} ${formatValue(
+    value
+  )}`;
+};
+
+/**
+ * Collects the names appearing in any time window.
+ * @param perWindow Record mapping each time window to a map keyed by name
+ * @returns Distinct names in order of first appearance
+ */
+const collectNames = (
+  perWindow: Record<TimeWindow, Record<string, number>>
+): string[] =>
+  Array.from(new Set(Object.values(perWindow).flatMap(Object.keys)));
+
+/**
+ * Renders metrics in the Prometheus text exposition format.
+ * @description Every series becomes a summary (quantiles per requested percentile plus `_sum` and `_count`), or a
+ * histogram (`_bucket` per bucket bound plus `_sum` and `_count`) when buckets are given, and
+ * a gauge per window statistic (`_average`, `_minimum`, `_maximum`, `_standard_deviation`). Every counter
+ * becomes a gauge, since rolling window totals go down as events expire. Every gauge set with `set()` becomes a
+ * gauge of its latest value, plus a gauge per window statistic (`_average`, `_minimum`, `_maximum`). All samples
+ * but the latest gauge values carry a `window` label next to their own labels, and labels named `window`,
+ * `quantile` or `le` are renamed to `exported_<name>`. A metric whose names collide with those of an earlier one,
+ * e.g. a counter named `<series>_count` or two names that sanitize to the same string, gets a numeric suffix such
+ * as `_2`. Series are named before counters, and counters before gauges. Statistics that are null for a window
+ * (empty windows) are omitted.
+ * @param metrics SnapMetrics instance to export
+ * @param options Configuration options
+ * @param options.prefix Prepended to every metric name. Defaults to "".
+ * @param options.percentiles Percentiles exported as summary quantiles. Defaults to [50, 90, 95, 99].
+ * @param options.buckets Bucket bounds in increasing order. When given, series are exported as histograms,
+ * which can be aggregated across instances, instead of summaries.
+ * @param options.windows Time windows to export. Defaults to all.
+ * @param options.series Series to export. Defaults to all. Counters and gauges are always exported.
+ * @returns Text exposition, ending with a line feed
+ * @example
+ * const metrics = new SnapMetrics(["1m"]);
+ * metrics.record("http_latency", 12, { route: "/users" });
+ * metrics.increment("api_calls");
+ *
+ * toPrometheus(metrics, { prefix: "myapp_", percentiles: [95] });
+ * // # HELP myapp_http_latency Rolling distribution of "http_latency" values per time window.
+ * // # TYPE myapp_http_latency summary
+ * // myapp_http_latency{route="/users",window="1m",quantile="0.95"} 12
+ * // myapp_http_latency_sum{route="/users",window="1m"} 12
+ * // myapp_http_latency_count{route="/users",window="1m"} 1
+ * // ...
+ * // # HELP myapp_api_calls Rolling total of the "api_calls" counter per time window.
+ * // # TYPE myapp_api_calls gauge
+ * // myapp_api_calls{window="1m"} 1
+ */
+export const toPrometheus = (
+  metrics: SnapMetrics,
+  {
+    prefix = "",
+    percentiles = [50, 90, 95, 99],
+    buckets,
+    windows: exportedWindows,
+    series: exportedSeries,
+  }: PrometheusOptions = {}
+): string => {
+  const lines: string[] = [];
+  const usedNames = new Set<string>(); // Sample names of the metrics written so far
+  const isExported = (window: string) =>
+    !exportedWindows || exportedWindows.includes(window as TimeWindow);
+
+  const writeFamily = (
+    name: string,
+    type: "summary" | "histogram" | "gauge",
+    help: string,
+    samples: string[]
+  ) => {
+    if (!samples.length) return;
+    lines.push(`# HELP ${name} ${escapeHelp(help)}`);
+    lines.push(`# TYPE ${name} ${type}`);
+    lines.push(...samples);
+  };
+
+  // Picks the first of name, name_2, name_3, ... whose sample names are all unused, and reserves them
+  const reserveName = (name: string, suffixes: string[]): string => {
+    for (let n = 1; ; n++) {
+      const candidate = n === 1 ? name : `${name}_${n}`;
+      const sampleNames = suffixes.map((suffix) => `${candidate}${suffix}`);
+      if (sampleNames.some((sampleName) => usedNames.has(sampleName))) {
+        continue;
+      }
+      sampleNames.forEach((sampleName) => usedNames.add(sampleName));
+      return candidate;
+    }
+  };
+
+  for (const series of collectNames(metrics.getSeries())) {
+    if (exportedSeries && !exportedSeries.includes(series)) continue;
+    const name = reserveName(sanitizeMetricName(`${prefix}${series}`), [
+      "",
+      ...(buckets ? ["_bucket"] : []),
+      "_sum",
+      "_count",
+      ...Object.values(GAUGE_STATS).map((suffix) => `_${suffix}`),
+    ]);
+    const groups = metrics.getMetricsByLabels({
+      series,
+      percentiles: buckets ? [] : percentiles,
+    });
+
+    const distribution: string[] = [];
+    const gauges: Record<keyof typeof GAUGE_STATS, string[]> = {
+      average: [],
+      minimum: [],
+      maximum: [],
+      standardDeviation: [],
+    };
+
+    for (const { labels, metrics: windows } of groups) {
+      const histograms = buckets
+        ? metrics.getHistograms(buckets, { series, labels })
+        : undefined;
+
+      for (const [window, stats] of Object.entries(windows)) {
+        if (!isExported(window)) continue;
+        const sampleLabels = getSampleLabels(labels, window);
+
+        if (histograms) {
+          const histogram = histograms[window as TimeWindow];
+          for (const [bound, count] of Object.entries(histogram?.le ?? {})) {
+            distribution.push(
+              formatSample(
+                `${name}_bucket`,
+                { ...sampleLabels, le: bound },
+                count
+              )
+            );
+          }
+        } else {
+          for (const percentile of percentiles) {
+            const value = stats[`percentile${percentile}`];
+            if (value === null || value === undefined) continue;
+            distribution.push(
+              formatSample(
+                name,
+                { ...sampleLabels, quantile: formatQuantile(percentile) },
+                value
+              )
+            );
+          }
+        }
+        distribution.push(
+          formatSample(`${name}_sum`, sampleLabels, stats["sum"] ?? 0)
+        );
+        distribution.push(
+          formatSample(`${name}_count`, sampleLabels, stats["count"] ?? 0)
+        );
+
+        for (const stat of Object.keys(
+          GAUGE_STATS
+        ) as (keyof typeof GAUGE_STATS)[]) {
+          const value = stats[stat];
+          if (value === null || value === undefined) continue;
+          gauges[stat].push(
+            formatSample(`${name}_${GAUGE_STATS[stat]}`, sampleLabels, value)
+          );
+        }
+      }
+    }
+
+    writeFamily(
+      name,
+      buckets ? "histogram" : "summary",
+      `Rolling distribution of "${series}" values per time window.`,
+      distribution
+    );
+    for (const [stat, suffix] of Object.entries(GAUGE_STATS)) {
+      writeFamily(
+        `${name}_${suffix}`,
+        "gauge",
+        `Rolling ${suffix.replace(/_/g, " ")} of "${series}" values per time window.`,
+        gauges[stat as keyof typeof GAUGE_STATS]
+      );
+    }
+  }
+
+  for (const counter of collectNames(metrics.getCounters())) {
+    const name = reserveName(sanitizeMetricName(`${prefix}${counter}`), [""]);
+    const samples: string[] = [];
+
+    for (const { labels, values } of metrics.getCounterByLabels(counter)) {
+      for (const [window, value] of Object.entries(values)) {
+        if (value === null || !isExported(window)) continue;
+        samples.push(
+          formatSample(name, getSampleLabels(labels, window), value)
+        );
+      }
+    }
+
+    writeFamily(
+      name,
+      "gauge",
+      `Rolling total of the "${counter}" counter per time window.`,
+      samples
+    );
+  }
+
+  // Group the label sets of each gauge, a metric family lists all of them
+  const gauges = new Map<string, { labels: Labels; latest: number }[]>();
+  for (const { name, ...gauge } of metrics.getGauges()) {
+    gauges.set(name, [...(gauges.get(name) ?? []), gauge]);
+  }
+  for (const [gauge, entries] of gauges) {
+    const name = reserveName(sanitizeMetricName(`${prefix}${gauge}`), [
+      "",
+      ...GAUGE_WINDOW_STATS.map((stat) => `_${stat}`),
+    ]);
+    const latest: string[] = [];
+    const stats: Record<(typeof GAUGE_WINDOW_STATS)[number], string[]> = {
+      average: [],
+      minimum: [],
+      maximum: [],
+    };
+
+    for (const { labels, latest: value } of entries) {
+      latest.push(formatSample(name, getSampleLabels(labels), value));
+      const windows = metrics.getGauge(gauge, labels);
+      for (const [window, windowStats] of Object.entries(windows)) {
+        if (windowStats === null || !isExported(window)) continue;
+        for (const stat of GAUGE_WINDOW_STATS) {
+          stats[stat].push(
+            formatSample(
+              `${name}_${stat}`,
+              getSampleLabels(labels, window),
+              windowStats[stat]
+            )
+          );
+        }
+      }
+    }
+
+    writeFamily(name, "gauge", `Latest value of the "${gauge}" gauge.`, latest);
+    for (const stat of GAUGE_WINDOW_STATS) {
+      writeFamily(
+        `${name}_${stat}`,
+        "gauge",
+        `Rolling ${stat} of the "${gauge}" gauge per time window.`,
+        stats[stat]
+      );
+    }
+  }
+
+  return lines.length ? `${lines.join("\n")}\n` : "";
+};
@@ -0,0 +1,119 @@
+import Denque from "denque";
+import type { TimeWindow } from "./index.js";
+import { insertByTimestamp } from "./utils.js";
+
+/**
+ * Time-ordered log of samples shared by all time windows.
+ * @description Instead of a copy of every sample per window, each window keeps a cursor to the oldest sample it
+ * still includes, and advances it as samples leave the window. The longest window owns retention: samples are
+ * dropped once every cursor has passed them. Cursors are absolute indices, counting the samples dropped so far,
+ * so dropping samples from the front does not move them.
+ */
+export class SampleLog<T extends { timestamp: number }> {
+  private samples = new Denque<T>(); // Oldest first
+  private offset = 0; // Samples dropped from the front so far
+  private starts: Map<TimeWindow, number>; // Absolute index of the oldest sample of each window
+
+  constructor(private timeWindowDurations: Record<TimeWindow, number>) {
+    this.starts = new Map(
+      Object.keys(timeWindowDurations).map((key) => [key as TimeWindow, 0])
+    );
+  }
+
+  get length(): number {
+    return this.samples.length;
+  }
+
+  /**
+   * Inserts a sample in time order, after any samples with the same timestamp.
+   * @param sample Sample to insert
+   * @returns The windows that include the sample
+   */
+  insert(sample: T): TimeWindow[] {
+    const position = insertByTimestamp(this.samples, sample);
+
+    // Windows that start after the sample already passed it, their cursors move along with their samples
+    const index = this.offset + position;
+    const windows: TimeWindow[] = [];
+    for (const [window, start] of this.starts) {
+      if (index < start) this.starts.set(window, start + 1);
+      else windows.push(window);
+    }
+    return windows;
+  }
+
+  /**
+   * Advances every window past its expired samples, then drops the samples no window includes anymore.
+   * @param now Current time in milliseconds
+   * @param onExpire Called for every sample leaving a window
+   */
+  removeExpired(
+    now: number,
+    onExpire: (window: TimeWindow, sample: T) => void
+  ): void {
+    let oldest = this.offset + this.samples.length;
+
+    for (const [window, initialStart] of this.starts) {
+      const expiryTime = this.timeWindowDurations[window]!;
+      let start = initialStart;
+      while (start < this.offset + this.samples.length) {
+        const sample = this.samples.peekAt(start - this.offset)!;
+        if (now - sample.timestamp <= expiryTime) break;
+        onExpire(window, sample);
+        start++;
+      }
+      this.starts.set(window, start);
+      oldest = Math.min(oldest, start);
+    }
+
+    while (this.offset < oldest) {
+      this.samples.shift();
+      this.offset++;
+    }
+  }
+
+  /**
+   * Adds a window whose duration was added to the durations.
+   * @param window The time window
+   * @param now Current time in milliseconds
+   * @returns The samples the window includes
+   */
+  addWindow(window: TimeWindow, now: number): T[] {
+    const duration = this.timeWindowDurations[window]!;
+    const samples = this.samples.toArray();
+    let position = 0;
+    while (
+      position < samples.length &&
+      now - samples[position]!.timestamp > duration
+    ) {
+      position++;
+    }
+    this.starts.set(window, this.offset + position);
+    return samples.slice(position);
+  }
+
+  removeWindow(window: TimeWindow): void {
+    this.starts.delete(window);
+  }
+
+  /**
+   * Returns the samples of a window, oldest first.
+   */
+  getSamples(window: TimeWindow): T[] {
+    const start = this.starts.get(window);
+    if (start === undefined) return [];
+
+    const samples: T[] = [];
+    for (let i = start - this.offset; i < this.samples.length; i++) {
+      samples.push(this.samples.peekAt(i)!);
+    }
+    return samples;
+  }
+
+  /**
+   * Returns the sample at a position from the oldest sample kept.
+   */
+  peekAt(position: number): T | undefined {
+    return this.samples.peekAt(position);
+  }
+}
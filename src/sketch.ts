@@ -0,0 +1,218 @@
+/**
+ * Values closer to zero than this are counted in a dedicated zero bin.
+ */
+const MIN_INDEXABLE_VALUE = 1e-9;
+
+/**
+ * Serializable state of a quantile sketch.
+ */
+export interface QuantileSketchSnapshot {
+  relativeAccuracy: number;
+  positive: [index: number, count: number][];
+  negative: [index: number, count: number][];
+  zero: number;
+}
+
+/**
+ * Mergeable quantile sketch with a relative error guarantee (DDSketch).
+ * @description Values are counted in logarithmically sized bins, so any quantile is estimated within
+ * `relativeAccuracy` of the true value, using memory that grows with the range of the values instead of their
+ * number. Sketches with the same accuracy can be merged, and values can be removed again.
+ */
+export class QuantileSketch {
+  readonly relativeAccuracy: number;
+  private gamma: number;
+  private logGamma: number;
+  private positive = new Map<number, number>(); // Bin index to count for values > 0
+  private negative = new Map<number, number>(); // Bin index to count for values < 0, by magnitude
+  private zero = 0;
+  count = 0;
+
+  /**
+   * @param relativeAccuracy Maximum relative error of estimated quantiles, between 0 and 1 (exclusive). Defaults to 0.01 (1%).
+   * @throws {Error} If relativeAccuracy is not between 0 and 1.
+   */
+  constructor(relativeAccuracy: number = 0.01) {
+    if (!(relativeAccuracy > 0 && relativeAccuracy < 1)) {
+      throw new Error("Relative accuracy must be between 0 and 1");
+    }
+    this.relativeAccuracy = relativeAccuracy;
+    this.gamma = (1 + relativeAccuracy) / (1 - relativeAccuracy);
+    this.logGamma = Math.log(this.gamma);
+  }
+
+  /**
+   * Returns the bin index of a positive value.
+   */
+  private getIndex(magnitude: number): number {
+    return Math.ceil(Math.log(magnitude) / this.logGamma);
+  }
+
+  /**
+   * Returns the value representing a bin, within the relative accuracy of every value in it.
+   */
+  private getBinValue(index: number): number {
+    return (2 * Math.pow(this.gamma, index)) / (this.gamma + 1);
+  }
+
+  /**
+   * Adds a value to the sketch.
+   * @param value Value to add
+   * @param count Number of times to add the value, defaults to 1
+   */
+  add(value: number, count: number = 1): void {
+    this.update(value, count);
+  }
+
+  /**
+   * Removes a value previously added to the sketch.
+   * @param value Value to remove
+   * @param count Number of times to remove the value, defaults to 1
+   */
+  remove(value: number, count: number = 1): void {
+    this.update(value, -count);
+  }
+
+  private update(value: number, delta: number): void {
+    this.count += delta;
+
+    if (Math.abs(value) < MIN_INDEXABLE_VALUE) {
+      this.zero += delta;
+      return;
+    }
+
+    const bins = value > 0 ? this.positive : this.negative;
+    const index = this.getIndex(Math.abs(value));
+    const binCount = (bins.get(index) ?? 0) + delta;
+    if (binCount > 0) {
+      bins.set(index, binCount);
+    } else {
+      bins.delete(index);
+    }
+  }
+
+  /**
+   * Adds all values of another sketch to this one.
+   * @param other Sketch with the same relative accuracy
+   * @throws {Error} If the sketches have different relative accuracies.
+   */
+  merge(other: QuantileSketch): void {
+    if (other.relativeAccuracy !== this.relativeAccuracy) {
+      throw new Error("Cannot merge sketches with different relative accuracy");
+    }
+    for (const [index, count] of other.positive) {
+      this.positive.set(index, (this.positive.get(index) ?? 0) + count);
+    }
+    for (const [index, count] of other.negative) {
+      this.negative.set(index, (this.negative.get(index) ?? 0) + count);
+    }
+    this.zero += other.zero;
+    this.count += other.count;
+  }
+
+  /**
+   * Removes all values from the sketch.
+   */
+  clear(): void {
+    this.positive.clear();
+    this.negative.clear();
+    this.zero = 0;
+    this.count = 0;
+  }
+
+  /**
+   * Returns a copy of the sketch.
+   */
+  clone(): QuantileSketch {
+    const copy = new QuantileSketch(this.relativeAccuracy);
+    copy.merge(this);
+    return copy;
+  }
+
+  /**
+   * Returns the serializable state of the sketch.
+   */
+  toSnapshot(): QuantileSketchSnapshot {
+    return {
+      relativeAccuracy: this.relativeAccuracy,
+      positive: Array.from(this.positive),
+      negative: Array.from(this.negative),
+      zero: this.zero,
+    };
+  }
+
+  /**
+   * Creates a sketch from the state returned by `toSnapshot()`.
+   * @param snapshot Serialized sketch
+   * @returns Sketch holding the serialized values
+   */
+  static fromSnapshot(snapshot: QuantileSketchSnapshot): QuantileSketch {
+    const sketch = new QuantileSketch(snapshot.relativeAccuracy);
+    for (const [index, count] of snapshot.positive) {
+      sketch.positive.set(index, count);
+      sketch.count += count;
+    }
+    for (const [index, count] of snapshot.negative) {
+      sketch.negative.set(index, count);
+      sketch.count += count;
+    }
+    sketch.zero = snapshot.zero;
+    sketch.count += snapshot.zero;
+    return sketch;
+  }
+
+  /**
+   * Estimates the number of values less than or equal to a value.
+   * @description Values sharing a bin with the given value are counted when the bin's estimate is not greater
+   * than it, so the result is exact for values at least `relativeAccuracy` away from any recorded value.
+   * @param value Value to rank
+   * @returns Estimated number of values
+   */
+  getRank(value: number): number {
+    let rank = 0;
+    for (const [index, count] of this.negative) {
+      if (-this.getBinValue(index) <= value) rank += count;
+    }
+    if (value >= 0) rank += this.zero;
+    for (const [index, count] of this.positive) {
+      if (this.getBinValue(index) <= value) rank += count;
+    }
+    return rank;
+  }
+
+  /**
+   * Estimates the value at a quantile.
+   * @param quantile Quantile to estimate (0-1)
+   * @returns Estimated value, or null if the sketch is empty
+   */
+  getQuantile(quantile: number): number | null {
+    if (this.count <= 0) return null;
+
+    const rank = quantile * (this.count - 1);
+    let seen = 0;
+
+    // Negative values, from the largest magnitude down
+    const negativeIndexes = Array.from(this.negative.keys()).sort(
+      (a, b) => b - a
+    );
+    for (const index of negativeIndexes) {
+      seen += this.negative.get(index)!;
+      if (seen > rank) return -this.getBinValue(index);
+    }
+
+    seen += this.zero;
+    if (seen > rank) return 0;
+
+    const positiveIndexes = Array.from(this.positive.keys()).sort(
+      (a, b) => a - b
+    );
+    for (const index of positiveIndexes) {
+      seen += this.positive.get(index)!;
+      if (seen > rank) return this.getBinValue(index);
+    }
+
+    // Only reached through floating point rounding of the rank
+    const last = positiveIndexes[positiveIndexes.length - 1];
+    return last === undefined ? 0 : this.getBinValue(last);
+  }
+}
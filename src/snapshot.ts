@@ -0,0 +1,158 @@
+import type { Labels, TimeWindow } from "./index.js";
+import type { QuantileMode, StorageMode, StoreSnapshot } from "./storage.js";
+
+/**
+ * Version of the snapshot format written by `toSnapshot()`.
+ */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Serializable state of a SnapMetrics instance, as returned by `toSnapshot()`.
+ * @description Timestamps are stored as ages in milliseconds relative to `createdAt`, because the
+ * `performance.now()` timestamps they come from do not survive a process restart.
+ */
+export interface Snapshot {
+  version: typeof SNAPSHOT_VERSION;
+  createdAt: number; // Wall clock time (Date.now()) when the snapshot was taken
+  options: {
+    timeWindows: TimeWindow[];
+    storage: StorageMode;
+    bucketDurationMS: number;
+    quantiles: QuantileMode;
+    relativeAccuracy: number;
+  };
+  uptime: number; // Milliseconds the instance had been running for
+  series: { series: string; labels: Labels; data: StoreSnapshot }[];
+  counters: {
+    name: string;
+    labels: Labels;
+    events: [age: number, value: number][]; // Events still counted by the longest time window, oldest first
+  }[];
+  gauges: {
+    name: string;
+    labels: Labels;
+    changes: [age: number, value: number][]; // Changes within the longest time window and the one in effect when it starts, oldest first
+  }[];
+  cursor?: number; // End of the range of a snapshot taken with `since`, to pass as `since` next time
+}
+
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === "object" && value !== null;
+
+const isNumberPairs = (value: unknown): boolean =>
+  Array.isArray(value) &&
+  value.every(
+    (pair) =>
+      Array.isArray(pair) &&
+      pair.length === 2 &&
+      pair.every((item) => typeof item === "number")
+  );
+
+/**
+ * Checks that the options hold the time windows and storage options a snapshot is restored with.
+ */
+const isValidOptions = (options: unknown): boolean =>
+  isObject(options) &&
+  Array.isArray(options["timeWindows"]) &&
+  options["timeWindows"].every((window) => typeof window === "string") &&
+  (options["storage"] === "exact" || options["storage"] === "bucketed") &&
+  typeof options["bucketDurationMS"] === "number" &&
+  typeof options["quantiles"] === "string" &&
+  typeof options["relativeAccuracy"] === "number";
+
+/**
+ * Checks that a time slice of a bucketed store holds its totals and quantile sketch.
+ */
+const isValidSlice = (slice: unknown): boolean =>
+  isObject(slice) &&
+  [
+    "age",
+    "count",
+    "sum",
+    "mean",
+    "m2",
+    "m3",
+    "m4",
+    "minimum",
+    "maximum",
+  ].every((key) => typeof slice[key] === "number") &&
+  isObject(slice["sketch"]) &&
+  typeof slice["sketch"]["relativeAccuracy"] === "number" &&
+  typeof slice["sketch"]["zero"] === "number" &&
+  isNumberPairs(slice["sketch"]["positive"]) &&
+  isNumberPairs(slice["sketch"]["negative"]);
+
+/**
+ * Checks that a series has a name, labels and the data of its storage mode.
+ */
+const isValidSeries = (series: unknown, storage: unknown): boolean => {
+  if (
+    !isObject(series) ||
+    typeof series["series"] !== "string" ||
+    !isObject(series["labels"]) ||
+    !isObject(series["data"])
+  ) {
+    return false;
+  }
+  const { values, slices } = series["data"];
+  return storage === "exact"
+    ? isNumberPairs(values)
+    : Array.isArray(slices) && slices.every(isValidSlice);
+};
+
+/**
+ * Checks that a counter has a name, labels and a list of `[age, value]` events.
+ */
+const isValidCounter = (counter: unknown): boolean =>
+  isObject(counter) &&
+  typeof counter["name"] === "string" &&
+  isObject(counter["labels"]) &&
+  isNumberPairs(counter["events"]);
+
+/**
+ * Checks that a gauge has a name, labels and a list of `[age, value]` changes.
+ */
+const isValidGauge = (gauge: unknown): boolean =>
+  isObject(gauge) &&
+  typeof gauge["name"] === "string" &&
+  isObject(gauge["labels"]) &&
+  isNumberPairs(gauge["changes"]);
+
+/**
+ * Checks that a value is a snapshot in a format this version can read.
+ * @param snapshot Value to check, e.g. parsed from JSON
+ * @throws {Error} If the value is not a snapshot, has an unsupported version, or malformed options, series,
+ * counters or gauges.
+ */
+export const validateSnapshot = (snapshot: unknown): void => {
+  if (!isObject(snapshot) || !("version" in snapshot)) {
+    throw new Error("Invalid snapshot");
+  }
+  const { version, createdAt, options, uptime, series, counters, gauges } =
+    snapshot;
+  if (version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version: ${version}`);
+  }
+  if (
+    typeof createdAt !== "number" ||
+    typeof uptime !== "number" ||
+    !Array.isArray(series) ||
+    !Array.isArray(counters) ||
+    !Array.isArray(gauges)
+  ) {
+    throw new Error("Invalid snapshot");
+  }
+  if (!isValidOptions(options)) {
+    throw new Error("Invalid snapshot options");
+  }
+  const { storage } = options as Snapshot["options"];
+  if (!series.every((entry) => isValidSeries(entry, storage))) {
+    throw new Error("Invalid snapshot series");
+  }
+  if (!counters.every(isValidCounter)) {
+    throw new Error("Invalid snapshot counters");
+  }
+  if (!gauges.every(isValidGauge)) {
+    throw new Error("Invalid snapshot gauges");
+  }
+};
@@ -1,3 +1,6 @@
+import type { VarianceMode } from "./index.js";
+import type { Moments } from "./moments.js";
+
 /**
  * Calculates the average of an array of values
  * @param values Array of values
@@ -22,25 +25,134 @@ export const calculateAverage = (
 export const calculatePercentile = (
   sortedValues: number[],
   percentile: number
+): number | null =>
+  interpolatePercentile(
+    sortedValues.length,
+    (rank) => sortedValues[rank]!,
+    percentile
+  );
+
+/**
+ * Calculates percentile using Hyndman and Fan type 7 linear interpolation, reading at most two values by rank.
+ * @param count Number of values
+ * @param getValue Returns the value at a rank (0-based) in increasing order
+ * @param percentile Percentile to calculate (0-100)
+ * @returns Interpolated percentile value or null if there are no values
+ */
+export const interpolatePercentile = (
+  count: number,
+  getValue: (rank: number) => number,
+  percentile: number
 ): number | null => {
-  if (!sortedValues.length) return null;
-  if (sortedValues.length === 1) return sortedValues[0]!;
+  if (!count) return null;
+  if (count === 1) return getValue(0);
 
   const p = percentile / 100;
-  const h = (sortedValues.length - 1) * p + 1;
+  const h = (count - 1) * p + 1;
   const hFloor = Math.floor(h);
 
   if (h === hFloor) {
-    return sortedValues[hFloor - 1]!;
+    return getValue(hFloor - 1);
   }
 
   const hCeil = Math.ceil(h);
-  const lower = sortedValues[hFloor - 1]!;
-  const upper = sortedValues[hCeil - 1]!;
+  const lower = getValue(hFloor - 1);
+  const upper = getValue(hCeil - 1);
 
   return lower + (h - hFloor) * (upper - lower);
 };
 
+/**
+ * Calculates the median absolute deviation from the median, without a scale factor
+ * @param sortedValues Array of sorted values
+ * @returns Median of the absolute deviations or null if array is empty
+ */
+export const calculateMedianAbsoluteDeviation = (
+  sortedValues: number[]
+): number | null => {
+  const median = calculatePercentile(sortedValues, 50);
+  if (median === null) return null;
+
+  // Deviations grow away from the median on both sides, merge the two sides to sort them
+  const deviations: number[] = [];
+  let below = sortedValues.findIndex((value) => value >= median) - 1;
+  let above = below + 1;
+  while (below >= 0 || above < sortedValues.length) {
+    const lower =
+      below >= 0 ? median - sortedValues[below]! : Number.POSITIVE_INFINITY;
+    const upper =
+      above < sortedValues.length
+        ? sortedValues[above]! - median
+        : Number.POSITIVE_INFINITY;
+    if (lower <= upper) {
+      deviations.push(lower);
+      below--;
+    } else {
+      deviations.push(upper);
+      above++;
+    }
+  }
+  return calculatePercentile(deviations, 50);
+};
+
+/**
+ * Calculates the mean of the values left after dropping the most extreme values on both sides
+ * @param sortedValues Array of sorted values
+ * @param trim Percentage of the values dropped on each side (0 to 50, exclusive)
+ * @returns Trimmed mean or null if array is empty
+ */
+export const calculateTrimmedMean = (
+  sortedValues: number[],
+  trim: number
+): number | null => {
+  const dropped = Math.floor((sortedValues.length * trim) / 100);
+  return calculateAverage(
+    sortedValues.slice(dropped, sortedValues.length - dropped)
+  );
+};
+
+/**
+ * Calculates the mean after replacing the most extreme values on both sides with the nearest remaining value
+ * @param sortedValues Array of sorted values
+ * @param trim Percentage of the values replaced on each side (0 to 50, exclusive)
+ * @returns Winsorized mean or null if array is empty
+ */
+export const calculateWinsorizedMean = (
+  sortedValues: number[],
+  trim: number
+): number | null => {
+  const length = sortedValues.length;
+  if (!length) return null;
+  const replaced = Math.floor((length * trim) / 100);
+  const kept = sortedValues.slice(replaced, length - replaced);
+  const sum =
+    kept.reduce((a, b) => a + b, 0) +
+    replaced * (kept[0]! + kept[kept.length - 1]!);
+  return sum / length;
+};
+
+/**
+ * Calculates the geometric mean (nth root of the product) of positive values
+ * @param values Array of values
+ * @returns Geometric mean or null if array is empty or holds values that are not positive
+ */
+export const calculateGeometricMean = (values: number[]): number | null => {
+  if (!values.length || values.some((value) => !(value > 0))) return null;
+  const logSum = values.reduce((sum, value) => sum + Math.log(value), 0);
+  return Math.exp(logSum / values.length);
+};
+
+/**
+ * Calculates the harmonic mean (reciprocal of the mean of the reciprocals) of positive values
+ * @param values Array of values
+ * @returns Harmonic mean or null if array is empty or holds values that are not positive
+ */
+export const calculateHarmonicMean = (values: number[]): number | null => {
+  if (!values.length || values.some((value) => !(value > 0))) return null;
+  const reciprocalSum = values.reduce((sum, value) => sum + 1 / value, 0);
+  return values.length / reciprocalSum;
+};
+
 /**
  * Finds the minimum value in an array
  * @param values Array of values
@@ -58,18 +170,133 @@ export const calculateMaximum = (values: number[]): number | null =>
   values.length ? Math.max(...values) : null;
 
 /**
- * Calculates the standard deviation of an array of values
- * @param values Array of values
- * @param mean Optional pre-calculated mean
- * @returns Standard deviation or null if array is empty
+ * Calculates the variance from the moments of a set of values
+ * @param moments Moments of the values
+ * @param mode "population" divides by the number of values, "sample" by one less (Bessel's correction)
+ * @returns Variance or null if there are too few values
+ */
+export const calculateVariance = (
+  moments: Moments,
+  mode: VarianceMode = "population"
+): number | null => {
+  const divisor = mode === "sample" ? moments.count - 1 : moments.count;
+  if (divisor <= 0) return null;
+  return moments.m2 / divisor;
+};
+
+/**
+ * Calculates the standard deviation from the moments of a set of values
+ * @param moments Moments of the values
+ * @param mode "population" or "sample" variance
+ * @returns Standard deviation or null if there are too few values
  */
 export const calculateStandardDeviation = (
-  values: number[],
-  mean?: number
+  moments: Moments,
+  mode: VarianceMode = "population"
 ): number | null => {
-  if (!values.length) return null;
-  const avg = mean ?? calculateAverage(values)!;
-  const squaredDiffs = values.map((value) => Math.pow(value - avg, 2));
-  const variance = squaredDiffs.reduce((a, b) => a + b, 0) / values.length;
-  return Math.sqrt(variance);
+  const variance = calculateVariance(moments, mode);
+  return variance === null ? null : Math.sqrt(variance);
+};
+
+/**
+ * Calculates the coefficient of variation (standard deviation relative to the mean)
+ * @param moments Moments of the values
+ * @param mode "population" or "sample" variance
+ * @returns Coefficient of variation or null if there are too few values or the mean is 0
+ */
+export const calculateCoefficientOfVariation = (
+  moments: Moments,
+  mode: VarianceMode = "population"
+): number | null => {
+  const standardDeviation = calculateStandardDeviation(moments, mode);
+  if (standardDeviation === null || moments.mean === 0) return null;
+  return standardDeviation / Math.abs(moments.mean);
+};
+
+/**
+ * Calculates how many standard deviations a value is from a mean (z-score)
+ * @param value Value to score
+ * @param mean Mean of the reference values
+ * @param standardDeviation Standard deviation of the reference values
+ * @returns Z-score, or an infinite one if the reference values are all equal and the value differs from them
+ */
+export const calculateZScore = (
+  value: number,
+  mean: number,
+  standardDeviation: number
+): number => {
+  const deviation = value - mean;
+  if (standardDeviation > 0) return deviation / standardDeviation;
+  // Means of the same values summed in a different order may differ by rounding
+  return Math.abs(deviation) <= 1e-9 * Math.abs(mean)
+    ? 0
+    : Math.sign(deviation) * Infinity;
+};
+
+/**
+ * Calculates the skewness (asymmetry around the mean) from the moments of a set of values
+ * @param moments Moments of the values
+ * @param mode "population" for the moment coefficient, "sample" for the adjusted Fisher-Pearson coefficient
+ * @returns Skewness or null if there are too few values or they are all equal
+ */
+export const calculateSkewness = (
+  moments: Moments,
+  mode: VarianceMode = "population"
+): number | null => {
+  const { count, m2, m3 } = moments;
+  if (count < (mode === "sample" ? 3 : 1) || !(m2 > 0)) return null;
+  const skewness = (Math.sqrt(count) * m3) / Math.pow(m2, 1.5);
+  if (!Number.isFinite(skewness)) return null;
+  return mode === "sample"
+    ? (skewness * Math.sqrt(count * (count - 1))) / (count - 2)
+    : skewness;
+};
+
+/**
+ * Calculates the excess kurtosis (weight of the tails, 0 for a normal distribution) from the moments of a set of values
+ * @param moments Moments of the values
+ * @param mode "population" for the moment coefficient, "sample" for the bias-adjusted estimate
+ * @returns Excess kurtosis or null if there are too few values or they are all equal
+ */
+export const calculateKurtosis = (
+  moments: Moments,
+  mode: VarianceMode = "population"
+): number | null => {
+  const { count, m2, m4 } = moments;
+  if (count < (mode === "sample" ? 4 : 1) || !(m2 > 0)) return null;
+  const kurtosis = (count * m4) / (m2 * m2) - 3;
+  if (!Number.isFinite(kurtosis)) return null;
+  return mode === "sample"
+    ? (((count + 1) * kurtosis + 6) * (count - 1)) / ((count - 2) * (count - 3))
+    : kurtosis;
+};
+
+/**
+ * Counts the values less than or equal to each bucket bound
+ * @param values Array of values, in any order
+ * @param bounds Bucket upper bounds in increasing order
+ * @returns Cumulative count for each bound
+ */
+export const calculateCumulativeCounts = (
+  values: number[],
+  bounds: number[]
+): number[] => {
+  const counts = new Array<number>(bounds.length).fill(0);
+
+  for (const value of values) {
+    // Binary search for the first bound greater than or equal to the value
+    let low = 0;
+    let high = bounds.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (bounds[middle]! < value) low = middle + 1;
+      else high = middle;
+    }
+    if (low < bounds.length) counts[low]!++;
+  }
+
+  for (let i = 1; i < counts.length; i++) {
+    counts[i]! += counts[i - 1]!;
+  }
+  return counts;
 };
@@ -0,0 +1,81 @@
+import type { Labels, TimeWindow } from "./index.js";
+import type { Moments } from "./moments.js";
+import type { QuantileSketchSnapshot } from "./sketch.js";
+
+/**
+ * Statistics of the values held by one or more series stores within a time window.
+ */
+export interface ValueDistribution {
+  count: number;
+  sum: number;
+  getMinimum(): number | null;
+  getMaximum(): number | null;
+  getPercentile(percentile: number): number | null;
+  getCumulativeCounts(bounds: number[]): number[]; // Values less than or equal to each increasing bound
+  getMoments(): Moments; // For the variance, standard deviation, skewness and kurtosis
+  getSortedValues(): number[] | null; // Every value in increasing order, or null if values are not kept
+}
+
+/**
+ * Holds the values of one series and label set for every time window.
+ */
+export interface SeriesStore {
+  readonly series: string;
+  readonly labels: Labels;
+  record(timestamp: number, value: number): void;
+  removeExpired(now: number): void;
+  isEmpty(): boolean;
+  getCount(window: TimeWindow): number;
+  toSnapshot(now: number, range?: SnapshotRange): StoreSnapshot; // Serializable state, with timestamps as ages relative to now
+  load(snapshot: StoreSnapshot, now: number): void; // Adds the values of a snapshot taken at now
+  addWindow(window: TimeWindow, now: number): void; // Adds a window whose duration was added, filled with the values still held
+  removeWindow(window: TimeWindow): void;
+}
+
+/**
+ * Serializable state of an exact store: every value of the longest time window, oldest first.
+ */
+export interface ExactStoreSnapshot {
+  values: [age: number, value: number][];
+}
+
+/**
+ * Serializable state of a bucketed store: every live time slice.
+ */
+export interface BucketedStoreSnapshot {
+  slices: {
+    age: number; // Age of the middle of the slice
+    count: number;
+    sum: number;
+    mean: number;
+    m2: number; // Central moments of the slice, see Moments
+    m3: number;
+    m4: number;
+    minimum: number;
+    maximum: number;
+    sketch: QuantileSketchSnapshot;
+  }[];
+}
+
+export type StoreSnapshot = ExactStoreSnapshot | BucketedStoreSnapshot;
+
+/**
+ * Creates series stores and combines them into distributions, for one storage mode.
+ */
+export interface StorageEngine {
+  createStore(series: string, labels: Labels): SeriesStore;
+  combine(stores: SeriesStore[], window: TimeWindow): ValueDistribution;
+  getSnapshotCursor(now: number): number; // Time before which no more values can be added, ending a snapshot range
+}
+
+/**
+ * Time range of the values included in a snapshot, from `since` (inclusive) to `until` (exclusive).
+ */
+export interface SnapshotRange {
+  since: number;
+  until: number;
+}
+
+export type StorageMode = "exact" | "bucketed";
+
+export type QuantileMode = "exact" | "approximate";
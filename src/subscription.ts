@@ -0,0 +1,120 @@
+import type { Labels, SnapMetrics, TimeWindow } from "./index.js";
+import { getSeriesKey, normalizeLabels, reportError } from "./utils.js";
+
+export interface SubscriptionOptions {
+  intervalMS?: number; // How often snapshots are delivered, in milliseconds. Defaults to 1000.
+  percentiles?: number[]; // Percentiles of the metrics, as for getMetrics(). Defaults to [90, 95].
+  series?: string; // Series of the metrics, defaults to the default series
+  labels?: Labels; // Only include label sets of the series containing all of these labels
+  onError?: (error: unknown) => void; // Called when the listener throws. Defaults to emitting a process warning.
+}
+
+/**
+ * Metrics and counters computed at one tick of a subscription.
+ */
+export interface MetricsSnapshot {
+  timestamp: number; // Wall clock time (Date.now()) of the tick
+  metrics: Record<TimeWindow, Record<string, number | null>>; // Output of getMetrics()
+  counters: Record<TimeWindow, Record<string, number>>; // Output of getCounters()
+}
+
+export type SnapshotListener = (snapshot: MetricsSnapshot) => void;
+
+export interface Subscription {
+  unsubscribe(): void; // Stops delivering snapshots to the listener
+}
+
+export interface Scheduler {
+  subscribe(
+    options: SubscriptionOptions,
+    listener: SnapshotListener
+  ): Subscription;
+}
+
+interface Subscriber {
+  key: string; // Subscribers with the same key receive the same snapshot
+  options: SubscriptionOptions;
+  listener: SnapshotListener;
+}
+
+/**
+ * Creates a scheduler sharing one timer between all subscriptions with the same interval.
+ * @description At every tick, the metrics are computed once for each distinct set of options and the counters
+ * once, then fanned out to the listeners. Listeners of the same tick receive the same timestamp and objects,
+ * which they should not modify. A listener throwing does not keep the others from being called, its error is
+ * passed to the `onError` option of its subscription, or emitted as a process warning without one. The timers
+ * do not keep the process alive.
+ * @param source Instance the snapshots are computed from
+ */
+export const createScheduler = (
+  source: Pick<SnapMetrics, "getMetrics" | "getCounters">
+): Scheduler => {
+  const timers = new Map<
+    number,
+    { timer: ReturnType<typeof setInterval>; subscribers: Set<Subscriber> }
+  >(); // Maps intervals to their timer and subscribers
+
+  const tick = (subscribers: Set<Subscriber>) => {
+    const timestamp = Date.now();
+    const counters = source.getCounters();
+    const snapshots = new Map<string, MetricsSnapshot>();
+
+    for (const { key, options, listener } of subscribers) {
+      try {
+        let snapshot = snapshots.get(key);
+        if (!snapshot) {
+          const { percentiles, series, labels } = options;
+          snapshot = {
+            timestamp,
+            metrics: source.getMetrics({ percentiles, series, labels }),
+            counters,
+          };
+          snapshots.set(key, snapshot);
+        }
+        listener(snapshot);
+      } catch (error) {
+        reportError(error, options.onError);
+      }
+    }
+  };
+
+  return {
+    subscribe: (options, listener) => {
+      const { intervalMS = 1000 } = options;
+      if (!(intervalMS > 0)) {
+        throw new Error("Interval must be a positive number");
+      }
+      if (options.percentiles?.some((p) => !(p >= 0 && p <= 100))) {
+        throw new Error("Percentile must be between 0 and 100");
+      }
+
+      const subscriber: Subscriber = {
+        key: JSON.stringify([
+          options.percentiles ?? null,
+          getSeriesKey(options.series ?? "", normalizeLabels(options.labels)),
+        ]),
+        options,
+        listener,
+      };
+
+      let entry = timers.get(intervalMS);
+      if (!entry) {
+        const subscribers = new Set<Subscriber>();
+        const timer = setInterval(() => tick(subscribers), intervalMS);
+        timer.unref?.();
+        entry = { timer, subscribers };
+        timers.set(intervalMS, entry);
+      }
+      entry.subscribers.add(subscriber);
+
+      const { timer, subscribers } = entry;
+      return {
+        unsubscribe: () => {
+          if (!subscribers.delete(subscriber) || subscribers.size) return;
+          clearInterval(timer);
+          timers.delete(intervalMS);
+        },
+      };
+    },
+  };
+};
@@ -1,3 +1,5 @@
+import type Denque from "denque";
+
 /**
  * Converts a time window string (e.g., "1m") into milliseconds.
  * @param window Time window string
@@ -42,3 +44,119 @@ export const swapLevels = <
 
   return result as Record<K2, Record<K1, V>>;
 };
+
+/**
+ * Label dimensions attached to a series or counter, e.g. `{ route: "/users", status: "200" }`.
+ */
+export type Labels = Record<string, string>;
+
+/**
+ * Returns a copy of the labels with keys sorted and empty values removed.
+ * @param labels Labels to normalise
+ * @returns Normalised labels
+ */
+export const normalizeLabels = (labels: Labels = {}): Labels =>
+  Object.fromEntries(
+    Object.entries(labels)
+      .filter(([, value]) => value !== "")
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  );
+
+/**
+ * Builds the storage key identifying a name and label set combination.
+ * @param name Series or counter name
+ * @param labels Normalised labels
+ * @returns Key that is unique for the name and label set
+ */
+export const getSeriesKey = (name: string, labels: Labels): string =>
+  JSON.stringify([name, Object.entries(labels)]);
+
+/**
+ * Parses a key built by `getSeriesKey` back into its name and labels.
+ * @param key Key to parse
+ * @returns Name and labels encoded in the key
+ */
+export const parseSeriesKey = (
+  key: string
+): { name: string; labels: Labels } => {
+  const [name, entries] = JSON.parse(key) as [string, [string, string][]];
+  return { name, labels: Object.fromEntries(entries) };
+};
+
+/**
+ * Checks whether a label set matches a label filter.
+ * @description A missing label is treated as an empty string, so `{ status: "" }` matches label sets without `status`.
+ * @param labels Label set to test
+ * @param filter Labels that must all be present with the given values
+ * @returns True if every filter label matches
+ */
+export const matchLabels = (labels: Labels, filter: Labels): boolean =>
+  Object.entries(filter).every(([key, value]) => (labels[key] ?? "") === value);
+
+/**
+ * Groups label sets by the values of the given label keys.
+ * @param labelSets Label sets to group
+ * @param groupBy Label keys to group by. If omitted, groups by every label key in use.
+ * @returns Distinct label filters, one per group. Keys missing from a label set are set to an empty string.
+ */
+export const groupLabels = (
+  labelSets: Labels[],
+  groupBy?: string[]
+): Labels[] => {
+  const keys =
+    groupBy ??
+    Array.from(new Set(labelSets.flatMap((l) => Object.keys(l)))).sort();
+  const groups = new Map<string, Labels>();
+
+  for (const labels of labelSets) {
+    const group = Object.fromEntries(
+      keys.map((key) => [key, labels[key] ?? ""])
+    );
+    groups.set(JSON.stringify(Object.entries(group)), group);
+  }
+
+  return Array.from(groups.values());
+};
+
+/**
+ * Inserts an entry into a queue kept in time order, after any entries with the same timestamp.
+ * @description Appending is constant time; entries older than the newest one are placed with a binary search.
+ * @param queue Queue ordered by timestamp, oldest first
+ * @param entry Entry to insert
+ * @returns Position of the inserted entry
+ */
+export const insertByTimestamp = <T extends { timestamp: number }>(
+  queue: Denque<T>,
+  entry: T
+): number => {
+  const newest = queue.peekBack();
+  if (!newest || newest.timestamp <= entry.timestamp) {
+    return queue.push(entry) - 1;
+  }
+
+  let low = 0;
+  let high = queue.length - 1;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (queue.peekAt(middle)!.timestamp <= entry.timestamp) low = middle + 1;
+    else high = middle;
+  }
+  queue.splice(low, 0, entry);
+  return low;
+};
+
+/**
+ * Reports an error thrown by a callback that runs on a timer, where rethrowing it would crash the process.
+ * @param error The error thrown
+ * @param onError Handler called with the error. If omitted, the error is emitted as a process warning.
+ */
+export const reportError = (
+  error: unknown,
+  onError?: (error: unknown) => void
+): void => {
+  if (onError) {
+    onError(error);
+    return;
+  }
+  process.emitWarning(error instanceof Error ? error : String(error));
+};
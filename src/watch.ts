@@ -0,0 +1,122 @@
+import type { Labels, TimeWindow } from "./index.js";
+import { parseTimeWindow } from "./utils.js";
+
+/**
+ * A threshold on a rolling statistic or counter of one time window.
+ */
+export interface WatchRule {
+  stat: string; // A getMetrics() stat such as "average" or "percentile95", or "counter" / "counterRate"
+  window: TimeWindow; // Time window the stat is read from
+  series?: string; // Series of a value stat, defaults to the default series
+  counter?: string; // Counter name, required for "counter" and "counterRate"
+  labels?: Labels; // Only include label sets containing all of these labels
+  above?: number; // Triggers when the stat is above this value
+  below?: number; // Triggers when the stat is below this value
+  hysteresis?: number; // How far the stat must move back past the threshold to resolve, defaults to 0
+  for?: TimeWindow; // How long the threshold must be crossed before triggering, defaults to immediately
+  intervalMS?: number; // How often the rule is checked, in milliseconds. Defaults to 1000.
+}
+
+export interface WatchEvent {
+  rule: WatchRule;
+  value: number | null; // Value of the stat when the event fired
+  timestamp: number; // Wall clock time (Date.now()) of the event
+}
+
+export interface WatchHandler {
+  onTrigger?(event: WatchEvent): void; // The threshold has been crossed for the required duration
+  onResolve?(event: WatchEvent): void; // The stat has moved back past the threshold and the hysteresis
+  onError?(error: unknown): void; // Reading the stat or a handler threw. Defaults to emitting a process warning.
+}
+
+export interface Watch {
+  readonly triggered: boolean; // Whether the rule is currently triggered
+  stop(): void; // Stops checking the rule
+}
+
+/**
+ * State of a rule between checks.
+ */
+export interface WatchState {
+  status: "ok" | "pending" | "triggered";
+  pendingSince: number; // When the threshold was first crossed while pending
+}
+
+/**
+ * Checks that a rule has a threshold and valid durations.
+ * @param rule Rule to check
+ * @returns Minimum duration in milliseconds the threshold must be crossed for
+ * @throws {Error} If the rule has no threshold, an invalid `for` duration, hysteresis or interval.
+ */
+export const validateWatchRule = (rule: WatchRule): number => {
+  if (rule.above === undefined && rule.below === undefined) {
+    throw new Error("Watch rule needs an above or below threshold");
+  }
+  if (rule.hysteresis !== undefined && !(rule.hysteresis >= 0)) {
+    throw new Error("Hysteresis must be a non-negative number");
+  }
+  if (rule.intervalMS !== undefined && !(rule.intervalMS > 0)) {
+    throw new Error("Interval must be a positive number");
+  }
+  return rule.for === undefined ? 0 : parseTimeWindow(rule.for);
+};
+
+/**
+ * Checks whether a value crosses a rule's threshold.
+ */
+const isBreached = (rule: WatchRule, value: number | null): boolean =>
+  value !== null &&
+  ((rule.above !== undefined && value > rule.above) ||
+    (rule.below !== undefined && value < rule.below));
+
+/**
+ * Checks whether a value is back past a rule's threshold by at least the hysteresis.
+ * @description Empty windows (null values) resolve a rule.
+ */
+const isRecovered = (rule: WatchRule, value: number | null): boolean => {
+  const { above, below, hysteresis = 0 } = rule;
+  return (
+    value === null ||
+    ((above === undefined || value <= above - hysteresis) &&
+      (below === undefined || value >= below + hysteresis))
+  );
+};
+
+/**
+ * Advances the state of a rule with a new value of its stat.
+ * @param state State of the rule, updated in place
+ * @param rule The rule
+ * @param value Current value of the stat
+ * @param now Current time in milliseconds
+ * @param forMS Minimum duration in milliseconds the threshold must be crossed for
+ * @returns The event to fire, if any
+ */
+export const updateWatchState = (
+  state: WatchState,
+  rule: WatchRule,
+  value: number | null,
+  now: number,
+  forMS: number
+): "trigger" | "resolve" | undefined => {
+  switch (state.status) {
+    case "ok":
+      if (!isBreached(rule, value)) return undefined;
+      state.status = "pending";
+      state.pendingSince = now;
+      return updateWatchState(state, rule, value, now, forMS);
+
+    case "pending":
+      if (!isBreached(rule, value)) {
+        state.status = "ok";
+        return undefined;
+      }
+      if (now - state.pendingSince < forMS) return undefined;
+      state.status = "triggered";
+      return "trigger";
+
+    case "triggered":
+      if (!isRecovered(rule, value)) return undefined;
+      state.status = "ok";
+      return "resolve";
+  }
+};
@@ -0,0 +1,138 @@
+import test from "ava";
+import { SnapMetrics } from "../src/index.js";
+import {
+  addToMoments,
+  createMoments,
+  mergeMoments,
+  subtractMoments,
+} from "../src/moments.js";
+
+const createClock = (start = 0) => {
+  const clock = { now: start, read: () => clock.now };
+  return clock;
+};
+
+const createMetrics = () => {
+  const clock = createClock();
+  const sm = new SnapMetrics({
+    timeWindows: ["1m", "15m"],
+    clock: clock.read,
+    removeExpiredRecordsThrottlingMS: false,
+  });
+  return { clock, sm };
+};
+
+test("scores the short window average against the rest of the baseline", (t) => {
+  const { clock, sm } = createMetrics();
+
+  for (let second = 0; second < 900; second++) {
+    clock.now = second * 1000;
+    const normal = second % 2 ? 90 : 110;
+    sm.record("latency", second < 840 ? normal : 150, { route: "/slow" });
+    sm.record("latency", normal, { route: "/steady" });
+  }
+  clock.now = 899_500;
+
+  const anomalies = sm.getAnomalies({ short: "1m", baseline: "15m" });
+  t.is(anomalies.length, 2);
+
+  const [slow, steady] = anomalies;
+  t.like(slow, {
+    type: "series",
+    name: "latency",
+    labels: { route: "/slow" },
+    short: 150,
+    baseline: 100,
+    anomalous: true,
+  });
+  t.true(Math.abs(slow!.score - 5) < 1e-9);
+  t.true(Math.abs(slow!.severity - 5 / 3) < 1e-9);
+
+  t.like(steady, { labels: { route: "/steady" }, anomalous: false });
+  t.true(Math.abs(steady!.score) < 1e-9);
+
+  t.false(
+    sm.getAnomalies({ short: "1m", baseline: "15m", zThreshold: 6 })[0]!
+      .anomalous
+  );
+});
+
+test("compares counter rates with their rates before the short window", (t) => {
+  const { clock, sm } = createMetrics();
+
+  for (let second = 0; second < 900; second++) {
+    clock.now = second * 1000;
+    if (second < 840 ? second % 10 === 0 : second % 2 === 0) {
+      sm.increment("errors", 1, { route: "/users" });
+    }
+    sm.increment("requests", 2);
+  }
+  sm.increment("timeouts");
+  sm.increment("timeouts");
+  clock.now = 899_500;
+
+  const anomalies = sm.getAnomalies({ short: "1m", baseline: "15m" });
+  t.deepEqual(
+    anomalies.map(({ name, anomalous }) => [name, anomalous]),
+    [
+      ["timeouts", false], // Too few events to be anomalous
+      ["errors", true],
+      ["requests", false],
+    ]
+  );
+
+  const [timeouts, errors, requests] = anomalies;
+  t.is(timeouts!.score, Infinity);
+  t.like(errors, { type: "counter", labels: { route: "/users" }, short: 0.5 });
+  t.true(Math.abs(errors!.baseline - 84 / 839.5) < 1e-9);
+  t.true(Math.abs(errors!.score - 0.5 / (84 / 839.5)) < 1e-9);
+  t.true(Math.abs(requests!.score - 1) < 0.01);
+});
+
+test("skips label sets without a baseline to compare with", (t) => {
+  const { clock, sm } = createMetrics();
+
+  clock.now = 30_000;
+  for (let i = 0; i < 10; i++) {
+    sm.record(100);
+    sm.increment("api_calls");
+  }
+
+  // The instance is younger than the short window, which holds every value and event
+  t.deepEqual(sm.getAnomalies({ short: "1m", baseline: "15m" }), []);
+});
+
+test("removes the moments of a subset of the values", (t) => {
+  const earlier = createMoments();
+  [3, 8, 1, 12, 7, 7].forEach((v) => addToMoments(earlier, v));
+  const recent = createMoments();
+  [20, 25, 19].forEach((v) => addToMoments(recent, v));
+
+  const all = { ...earlier };
+  mergeMoments(all, recent);
+  subtractMoments(all, recent);
+
+  t.is(all.count, earlier.count);
+  for (const key of ["mean", "m2", "m3", "m4"] as const) {
+    t.true(Math.abs(all[key] - earlier[key]) < 1e-9 * Math.abs(earlier[key]));
+  }
+});
+
+test("throws on invalid anomaly options", (t) => {
+  const { sm } = createMetrics();
+
+  t.throws(() => sm.getAnomalies({ short: "5m", baseline: "15m" }), {
+    message: "Unknown time window: 5m",
+  });
+  t.throws(() => sm.getAnomalies({ short: "15m", baseline: "1m" }), {
+    message: "Short window must be shorter than the baseline",
+  });
+  t.throws(
+    () => sm.getAnomalies({ short: "1m", baseline: "15m", zThreshold: 0 }),
+    { message: "Z-score threshold must be a positive number" }
+  );
+  t.throws(
+    () => sm.getAnomalies({ short: "1m", baseline: "15m", ratioThreshold: 1 }),
+    { message: "Ratio threshold must be greater than 1" }
+  );
+});
@@ -0,0 +1,111 @@
+import test from "ava";
+import sinon from "sinon";
+import { SnapMetrics, QuantileSketch } from "../src/index.js";
+import { calculatePercentile } from "../src/stats.js";
+
+let clock: sinon.SinonFakeTimers;
+test.before((t) => {
+  clock = sinon.useFakeTimers();
+});
+
+test.after((t) => {
+  clock.restore();
+});
+
+// Deterministic pseudo-random values spanning several orders of magnitude
+const generateValues = (count: number): number[] => {
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+  return Array.from({ length: count }, () => Math.exp(random() * 10) - 0.5);
+};
+
+const percentiles = [1, 10, 25, 50, 75, 90, 95, 99];
+
+for (const relativeAccuracy of [0.01, 0.05]) {
+  test(`estimates percentiles within ${relativeAccuracy * 100}% of the exact values`, (t) => {
+    const values = generateValues(10_001);
+    const sm = new SnapMetrics({
+      timeWindows: ["1m"],
+      quantiles: "approximate",
+      relativeAccuracy,
+    });
+    values.forEach((v) => sm.record(v));
+
+    const sorted = [...values].sort((a, b) => a - b);
+    for (const percentile of percentiles) {
+      const exact = calculatePercentile(sorted, percentile)!;
+      const estimate = sm.getPercentiles(percentile)["1m"]!;
+      t.true(
+        Math.abs(estimate - exact) <= relativeAccuracy * Math.abs(exact),
+        `p${percentile}: ${estimate} vs ${exact}`
+      );
+    }
+  });
+}
+
+test("keeps the extremes exact", (t) => {
+  const sm = new SnapMetrics({ timeWindows: ["1m"], quantiles: "approximate" });
+
+  [5, 3, 8, 1, 4].forEach((v) => sm.record(v));
+
+  t.deepEqual(sm.getPercentiles(0), { "1m": 1 });
+  t.deepEqual(sm.getPercentiles(100), { "1m": 8 });
+  t.deepEqual(sm.getCounts(), { "1m": 5 });
+  t.deepEqual(sm.getSums(), { "1m": 21 });
+});
+
+test("removes expired values from the sketch", (t) => {
+  const sm = new SnapMetrics({
+    timeWindows: ["1m", "5m"],
+    quantiles: "approximate",
+  });
+
+  for (let i = 0; i < 100; i++) sm.record(1000);
+  clock.tick(2 * 60 * 1000);
+  for (let i = 0; i < 100; i++) sm.record(10);
+
+  const medians = sm.getMedians();
+  t.true(Math.abs(medians["1m"]! - 10) <= 0.1);
+  t.true(Math.abs(sm.getPercentiles(75)["5m"]! - 1000) <= 10);
+
+  clock.tick(5 * 60 * 1000 + 1);
+  t.deepEqual(sm.getMedians(), { "1m": null, "5m": null });
+});
+
+test("merges sketches across label sets", (t) => {
+  const sm = new SnapMetrics({ timeWindows: ["1m"], quantiles: "approximate" });
+
+  for (let i = 1; i <= 100; i++) {
+    sm.record("latency", i, { route: i % 2 ? "/a" : "/b" });
+  }
+
+  const median = sm.getMedians("latency")["1m"]!;
+  t.true(Math.abs(median - 50.5) <= 0.01 * 50.5 + 0.5, `${median}`);
+});
+
+test("merges sketches with the same accuracy only", (t) => {
+  const sketch = new QuantileSketch(0.02);
+  const other = new QuantileSketch(0.02);
+  [1, 2, 3].forEach((v) => sketch.add(v));
+  [4, 5].forEach((v) => other.add(v));
+
+  sketch.merge(other);
+  t.is(sketch.count, 5);
+  t.true(Math.abs(sketch.getQuantile(1)! - 5) <= 0.1);
+
+  const error = t.throws(() => sketch.merge(new QuantileSketch(0.01)));
+  t.is(error.message, "Cannot merge sketches with different relative accuracy");
+});
+
+test("throws an error for invalid quantile options", (t) => {
+  const error1 = t.throws(() => new SnapMetrics({ relativeAccuracy: 1 }));
+  t.is(error1.message, "Relative accuracy must be between 0 and 1");
+
+  const error2 = t.throws(
+    () => new SnapMetrics({ quantiles: "sampled" as "exact" })
+  );
+  t.is(error2.message, "Invalid quantile mode: sampled");
+});
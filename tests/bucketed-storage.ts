@@ -0,0 +1,178 @@
+import test from "ava";
+import sinon from "sinon";
+import { SnapMetrics } from "../src/index.js";
+
+let clock: sinon.SinonFakeTimers;
+test.before((t) => {
+  clock = sinon.useFakeTimers();
+});
+
+test.after((t) => {
+  clock.restore();
+});
+
+test("calculates exact counts, sums and extremes from time slices", (t) => {
+  const sm = new SnapMetrics({ timeWindows: ["1m"], storage: "bucketed" });
+
+  [5, 3, 8, 1, 4].forEach((v) => sm.record(v));
+
+  t.deepEqual(sm.getCounts(), { "1m": 5 });
+  t.deepEqual(sm.getSums(), { "1m": 21 });
+  t.deepEqual(sm.getAverages(), { "1m": 21 / 5 });
+  t.deepEqual(sm.getMinimums(), { "1m": 1 });
+  t.deepEqual(sm.getMaximums(), { "1m": 8 });
+  t.deepEqual(sm.getPercentiles(0), { "1m": 1 });
+  t.deepEqual(sm.getPercentiles(100), { "1m": 8 });
+});
+
+test("calculates standard deviation from time slices", (t) => {
+  const sm = new SnapMetrics({ timeWindows: ["1m"], storage: "bucketed" });
+
+  [2, 4, 6].forEach((v) => sm.record(v));
+
+  const stdDevs = sm.getStandardDeviations();
+  t.is(Math.round(stdDevs["1m"]! * 10_000) / 10_000, 1.633);
+});
+
+test("keeps higher moments precise for large values with a small spread", (t) => {
+  const bucketed = new SnapMetrics({
+    timeWindows: ["1m"],
+    storage: "bucketed",
+  });
+  const exact = new SnapMetrics({ timeWindows: ["1m"] });
+
+  let seed = 3;
+  for (let second = 0; second < 20; second++) {
+    for (let i = 0; i < 50; i++) {
+      seed = (seed * 16807) % 2147483647;
+      const value = 100_000 + seed / 2147483647; // Uniform between 1e5 and 1e5 + 1
+      bucketed.record(value);
+      exact.record(value);
+    }
+    clock.tick(1000);
+  }
+
+  const skewness = exact.getSkewnesses()["1m"]!;
+  const kurtosis = exact.getKurtoses()["1m"]!;
+  t.true(Math.abs(skewness) < 0.2);
+  t.true(Math.abs(kurtosis + 1.2) < 0.2); // Excess kurtosis of a uniform distribution
+  t.true(Math.abs(bucketed.getSkewnesses()["1m"]! - skewness) < 1e-6);
+  t.true(Math.abs(bucketed.getKurtoses()["1m"]! - kurtosis) < 1e-6);
+  t.true(
+    Math.abs(
+      bucketed.getStandardDeviations()["1m"]! -
+        exact.getStandardDeviations()["1m"]!
+    ) < 1e-9
+  );
+});
+
+test("estimates percentiles within 1% relative error", (t) => {
+  const sm = new SnapMetrics({ timeWindows: ["1m"], storage: "bucketed" });
+
+  for (let i = 1; i <= 1000; i++) {
+    sm.record(i);
+    if (i % 100 === 0) clock.tick(1000); // Spread values over several slices
+  }
+
+  for (const [percentile, exact] of [
+    [50, 500.5],
+    [90, 900.1],
+    [99, 990.01],
+  ] as const) {
+    const estimate = sm.getPercentiles(percentile)["1m"]!;
+    t.true(
+      Math.abs(estimate - exact) / exact <= 0.01,
+      `p${percentile}: ${estimate}`
+    );
+  }
+});
+
+test("expires whole time slices per window", (t) => {
+  const sm = new SnapMetrics({
+    timeWindows: ["1m", "5m"],
+    storage: "bucketed",
+  });
+
+  sm.record(100);
+  clock.tick(30 * 1000);
+  sm.record(200);
+  clock.tick(31 * 1000);
+
+  t.deepEqual(sm.getCounts(), { "1m": 1, "5m": 2 });
+  t.deepEqual(sm.getSums(), { "1m": 200, "5m": 300 });
+  t.deepEqual(sm.getMinimums(), { "1m": 200, "5m": 100 });
+
+  clock.tick(5 * 60 * 1000);
+
+  t.deepEqual(sm.getCounts(), { "1m": 0, "5m": 0 });
+  t.deepEqual(sm.getAverages(), { "1m": null, "5m": null });
+  t.deepEqual(sm.getSeries(), { "1m": {}, "5m": {} });
+});
+
+test("reuses ring slots once their slices expire", (t) => {
+  const sm = new SnapMetrics({
+    timeWindows: ["10s"],
+    storage: "bucketed",
+    removeExpiredRecordsThrottlingMS: false,
+  });
+
+  for (let i = 0; i < 100; i++) {
+    sm.record(i);
+    clock.tick(1000);
+  }
+
+  // Values recorded in the last 10 seconds (plus the partly overlapping slice)
+  t.deepEqual(sm.getCounts(), { "10s": 10 });
+  t.deepEqual(sm.getMinimums(), { "10s": 90 });
+  t.deepEqual(sm.getMaximums(), { "10s": 99 });
+});
+
+test("expires windows of a long ring step by step and after gaps", (t) => {
+  const sm = new SnapMetrics({
+    timeWindows: ["10s", "24h"],
+    storage: "bucketed",
+    removeExpiredRecordsThrottlingMS: false,
+  });
+
+  for (let i = 0; i < 30; i++) {
+    sm.record(i);
+    clock.tick(1000);
+  }
+  t.deepEqual(sm.getCounts(), { "10s": 10, "24h": 30 });
+  t.deepEqual(sm.getSums(), { "10s": 245, "24h": 435 });
+
+  // After a gap longer than the short window, the slices it skipped are expired all at once
+  clock.tick(60 * 1000);
+  sm.record(100);
+  t.deepEqual(sm.getCounts(), { "10s": 1, "24h": 31 });
+  t.deepEqual(sm.getMinimums(), { "10s": 100, "24h": 0 });
+
+  clock.tick((24 * 60 * 60 + 1) * 1000);
+  t.deepEqual(sm.getCounts(), { "10s": 0, "24h": 0 });
+  t.deepEqual(sm.getSeries(), { "10s": {}, "24h": {} });
+});
+
+test("combines time slices across label sets", (t) => {
+  const sm = new SnapMetrics({ timeWindows: ["1m"], storage: "bucketed" });
+
+  sm.record("latency", 10, { route: "/a" });
+  sm.record("latency", 30, { route: "/b" });
+
+  t.deepEqual(sm.getAverages("latency"), { "1m": 20 });
+  t.deepEqual(sm.getMaximums("latency"), { "1m": 30 });
+  t.deepEqual(sm.getMaximums({ series: "latency", labels: { route: "/a" } }), {
+    "1m": 10,
+  });
+});
+
+test("throws an error for invalid storage options", (t) => {
+  const error1 = t.throws(
+    () => new SnapMetrics({ storage: "bucketed", bucketDurationMS: 0 })
+  );
+  t.is(error1.message, "Bucket duration must be a positive number");
+
+  const error2 = t.throws(
+    () => new SnapMetrics({ storage: "sampled" as "exact" })
+  );
+  t.is(error2.message, "Invalid storage mode: sampled");
+});
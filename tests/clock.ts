@@ -0,0 +1,143 @@
+import test from "ava";
+import { SnapMetrics } from "../src/index.js";
+
+const createClock = (start = 0) => {
+  const clock = { now: start, read: () => clock.now };
+  return clock;
+};
+
+test("uses an injected clock to timestamp and expire values", (t) => {
+  const clock = createClock();
+  const sm = new SnapMetrics({
+    timeWindows: ["10s", "1m"],
+    clock: clock.read,
+    removeExpiredRecordsThrottlingMS: false,
+  });
+
+  sm.record(1);
+  sm.increment("api_calls");
+  clock.now = 30_000;
+  sm.record(3);
+
+  t.deepEqual(sm.getCounts(), { "10s": 1, "1m": 2 });
+  t.deepEqual(sm.getCounter("api_calls"), { "10s": null, "1m": 1 });
+
+  clock.now = 90_001;
+  t.deepEqual(sm.getCounts(), { "10s": 0, "1m": 0 });
+});
+
+test("measures durations with the injected clock", (t) => {
+  const clock = createClock();
+  const sm = new SnapMetrics({ timeWindows: ["1m"], clock: clock.read });
+
+  sm.recordDuration(() => {
+    clock.now += 250;
+  });
+
+  t.deepEqual(sm.getAverages(), { "1m": 250 });
+});
+
+test("inserts values with earlier timestamps in time order", (t) => {
+  const clock = createClock(100_000);
+  const sm = new SnapMetrics({
+    timeWindows: ["10s", "1m"],
+    clock: clock.read,
+    removeExpiredRecordsThrottlingMS: false,
+  });
+
+  sm.record(1, {}, { timestamp: 99_000 });
+  sm.record("default", 2, {}, { timestamp: 60_000 });
+  sm.record(3, {}, { timestamp: 95_000 });
+  sm.record(4, {}, { timestamp: 30_000 }); // Older than every window
+
+  t.deepEqual(sm.getCounts(), { "10s": 2, "1m": 3 });
+  t.deepEqual(sm.getMinimums(), { "10s": 1, "1m": 1 });
+
+  // The queue is in time order, so values expire oldest first
+  clock.now = 121_000;
+  t.deepEqual(sm.getCounts(), { "10s": 0, "1m": 2 });
+  t.deepEqual(sm.getSums(), { "10s": null, "1m": 4 });
+
+  const snapshot = sm.toSnapshot();
+  t.deepEqual(snapshot.series[0]!.data, {
+    values: [
+      [26_000, 3],
+      [22_000, 1],
+    ],
+  });
+});
+
+test("counts events with earlier timestamps only in the windows they fall into", (t) => {
+  const clock = createClock(100_000);
+  const sm = new SnapMetrics({
+    timeWindows: ["10s", "1m"],
+    clock: clock.read,
+    removeExpiredRecordsThrottlingMS: false,
+  });
+
+  sm.increment("api_calls", 1, {}, { timestamp: 95_000 });
+  sm.increment("api_calls", 1, { status: "500" }, { timestamp: 50_000 });
+  sm.increment("api_calls", 1, {}, { timestamp: 99_000 });
+
+  t.deepEqual(sm.getCounter("api_calls"), { "10s": 2, "1m": 3 });
+
+  clock.now = 106_000;
+  t.deepEqual(sm.getCounter("api_calls"), { "10s": 1, "1m": 3 });
+
+  clock.now = 110_001;
+  t.deepEqual(sm.getCounter("api_calls"), { "10s": null, "1m": 2 });
+});
+
+test("leaves values out of the windows they are already too old for", (t) => {
+  for (const storage of ["exact", "bucketed"] as const) {
+    const clock = createClock(100_000);
+    const sm = new SnapMetrics({
+      timeWindows: ["10s", "1m"],
+      storage,
+      clock: clock.read, // Expired values are removed at most every 100ms by default
+    });
+
+    sm.record(1);
+    sm.record(2, {}, { timestamp: 80_000 });
+
+    t.deepEqual(sm.getCounts(), { "10s": 1, "1m": 2 }, storage);
+    t.deepEqual(sm.getAverages(), { "10s": 1, "1m": 1.5 }, storage);
+  }
+});
+
+test("keeps bucketed values in the time slices of their timestamps", (t) => {
+  const clock = createClock(100_000);
+  const sm = new SnapMetrics({
+    timeWindows: ["10s", "1m"],
+    storage: "bucketed",
+    clock: clock.read,
+    removeExpiredRecordsThrottlingMS: false,
+  });
+
+  sm.record(1);
+  sm.record(2, {}, { timestamp: 80_000 });
+
+  t.deepEqual(sm.getCounts(), { "10s": 1, "1m": 2 });
+
+  clock.now = 141_000;
+  t.deepEqual(sm.getCounts(), { "10s": 0, "1m": 1 });
+  t.deepEqual(sm.getMaximums(), { "10s": null, "1m": 1 });
+});
+
+test("throws an error for invalid clocks and timestamps", (t) => {
+  const error1 = t.throws(
+    () => new SnapMetrics({ clock: 42 as unknown as () => number })
+  );
+  t.is(error1.message, "Clock must be a function");
+
+  const clock = createClock(1000);
+  const sm = new SnapMetrics({ clock: clock.read });
+
+  const error2 = t.throws(() => sm.record(1, {}, { timestamp: 2000 }));
+  t.is(error2.message, "Timestamp cannot be later than the current time");
+
+  const error3 = t.throws(() =>
+    sm.increment("api_calls", 1, {}, { timestamp: NaN })
+  );
+  t.is(error3.message, "Timestamp must be a finite number");
+});
@@ -0,0 +1,117 @@
+import test from "ava";
+import cluster from "node:cluster";
+import { fileURLToPath } from "node:url";
+import { SnapMetrics, createMetricsAggregator } from "../src/index.js";
+
+const forkWorker = (value: number, crash = false): Promise<number | null> =>
+  new Promise((resolve) => {
+    const worker = cluster.fork({
+      WORKER_VALUE: String(value),
+      WORKER_CRASH: String(crash),
+    });
+    worker.on("exit", (code) => resolve(code));
+  });
+
+test("aggregates the deltas of cluster workers, including restarted ones", async (t) => {
+  cluster.setupPrimary({
+    exec: fileURLToPath(
+      new URL("./fixtures/cluster-worker.ts", import.meta.url)
+    ),
+  });
+
+  const aggregator = createMetricsAggregator(["1m"]);
+  const otherMessages: unknown[] = [];
+  cluster.on("message", (_, message) => {
+    if (!aggregator.handleMessage(message)) otherMessages.push(message);
+  });
+
+  const exitCodes = await Promise.all([forkWorker(10), forkWorker(20)]);
+  t.deepEqual(exitCodes, [0, 0]);
+
+  // A worker that crashes before reporting its second batch, and its replacement
+  t.is(await forkWorker(30, true), 1);
+  t.is(await forkWorker(40), 0);
+
+  const { metrics } = aggregator;
+  t.deepEqual(metrics.getCounts(), { "1m": 35 });
+  t.deepEqual(metrics.getSums(), { "1m": 100 + 200 + 150 + 400 });
+  t.deepEqual(metrics.getMinimums(), { "1m": 10 });
+  t.deepEqual(metrics.getMaximums(), { "1m": 40 });
+  t.deepEqual(metrics.getCounters(), { "1m": { requests: 35 } });
+  t.is(otherMessages.length, 4);
+});
+
+test("ignores duplicate messages and other messages", (t) => {
+  const worker = new SnapMetrics(["1m"]);
+  const messages: unknown[] = [];
+
+  const aggregator = createMetricsAggregator(["1m"]);
+  worker.record(5);
+  worker.increment("requests");
+
+  const message = {
+    type: "snapmetrics:delta",
+    reporter: "worker-1",
+    seq: 1,
+    snapshot: worker.toSnapshot({ since: -Infinity }),
+  };
+  messages.push(message, message, { type: "other" });
+
+  t.deepEqual(
+    messages.map((m) => aggregator.handleMessage(m)),
+    [true, true, false]
+  );
+  t.deepEqual(aggregator.metrics.getCounts(), { "1m": 1 });
+  t.deepEqual(aggregator.metrics.getCounter("requests"), { "1m": 1 });
+});
+
+test("reports messages that cannot be merged instead of throwing", (t) => {
+  const errors: unknown[] = [];
+  const aggregator = createMetricsAggregator(["1m"], {
+    onError: (error) => errors.push(error),
+  });
+  const snapshot = new SnapMetrics(["1m"]).toSnapshot({ since: -Infinity });
+
+  const malformed = {
+    type: "snapmetrics:delta",
+    reporter: "worker-1",
+    seq: 1,
+    snapshot: { ...snapshot, series: [{ series: "default", labels: {} }] },
+  };
+  t.true(aggregator.handleMessage(malformed));
+  t.is((errors[0] as Error).message, "Invalid snapshot series");
+
+  const otherWindows = {
+    ...malformed,
+    seq: 2,
+    snapshot: new SnapMetrics(["5m"]).toSnapshot({ since: -Infinity }),
+  };
+  t.true(aggregator.handleMessage(otherWindows));
+  t.is(
+    (errors[1] as Error).message,
+    "Cannot merge metrics with different time windows"
+  );
+});
+
+test("forgets reporters that stopped reporting for longer than the longest window", async (t) => {
+  const worker = new SnapMetrics(["1s"]);
+  const aggregator = createMetricsAggregator(["1s"]);
+  const createMessage = (reporter: string) => ({
+    type: "snapmetrics:delta",
+    reporter,
+    seq: 1,
+    snapshot: worker.toSnapshot({ since: -Infinity }),
+  });
+
+  worker.record(5);
+  aggregator.handleMessage(createMessage("exited"));
+  await new Promise((resolve) => setTimeout(resolve, 1100));
+  worker.record(5);
+  aggregator.handleMessage(createMessage("running"));
+  t.deepEqual(aggregator.metrics.getCounts(), { "1s": 1 }); // The first value expired
+
+  // The id of the exited reporter was dropped, so its sequence starts over
+  aggregator.handleMessage(createMessage("exited"));
+  aggregator.handleMessage(createMessage("running"));
+  t.deepEqual(aggregator.metrics.getCounts(), { "1s": 2 });
+});
@@ -115,3 +115,46 @@ test("handles expiration for specific counter", (t) => {
     "5m": 2, // Both increments still valid
   });
 });
+
+test("expires weighted increments by their amount", (t) => {
+  const sm = new SnapMetrics(["1m", "5m"]);
+
+  sm.increment("bytes_sent", 1024);
+  sm.increment("bytes_sent", 512);
+  clock.tick(30 * 1000);
+  sm.increment("bytes_sent", 256);
+  clock.tick(31 * 1000);
+
+  t.deepEqual(sm.getCounter("bytes_sent"), {
+    "1m": 256, // First two increments expired
+    "5m": 1792,
+  });
+
+  clock.tick(5 * 60 * 1000);
+
+  t.deepEqual(sm.getCounters(), { "1m": {}, "5m": {} });
+  t.deepEqual(sm.getCounter("bytes_sent"), { "1m": null, "5m": null });
+});
+
+test("gets counter events and totals", (t) => {
+  const sm = new SnapMetrics(["1m", "5m"]);
+
+  sm.increment("bytes_sent", 1024, { route: "/a" });
+  sm.increment("bytes_sent", 512, { route: "/b" });
+  clock.tick(30 * 1000);
+  sm.increment("bytes_sent", 0.1, { route: "/a" });
+  clock.tick(31 * 1000);
+
+  t.deepEqual(sm.getCounterDetails("bytes_sent"), {
+    "1m": { events: 1, total: 0.1 },
+    "5m": { events: 3, total: 1536.1 },
+  });
+  t.deepEqual(sm.getCounterDetails("bytes_sent", { route: "/b" }), {
+    "1m": null,
+    "5m": { events: 1, total: 512 },
+  });
+  t.deepEqual(sm.getCounterDetails("non_existent"), {
+    "1m": null,
+    "5m": null,
+  });
+});
@@ -0,0 +1,120 @@
+import test from "ava";
+import { SnapMetrics, type TimeWindow } from "../src/index.js";
+
+const createClock = (start = 0) => {
+  const clock = { now: start, read: () => clock.now };
+  return clock;
+};
+
+test("weights values by half their weight per half-life", (t) => {
+  const clock = createClock();
+  const sm = new SnapMetrics({
+    halfLives: ["1m", "5m"],
+    clock: clock.read,
+    removeExpiredRecordsThrottlingMS: false,
+  });
+
+  t.deepEqual(sm.getEWMAs(), { "1m": null, "5m": null });
+
+  sm.record(10);
+  clock.now = 60_000;
+  sm.record(40);
+
+  const averages = sm.getEWMAs();
+  t.is(averages["1m"], (10 * 0.5 + 40) / 1.5);
+  t.true(Math.abs(averages["5m"]! - 26.038) < 0.001);
+
+  // Reading later decays every value alike
+  clock.now = 600_000;
+  t.true(Math.abs(sm.getEWMAs()["1m"]! - 30) < 1e-9);
+
+  // A value earlier than the latest one weighs what it would have decayed to
+  sm.record(70, {}, { timestamp: 30_000 });
+  const weight = Math.SQRT1_2;
+  t.true(
+    Math.abs(
+      sm.getEWMAs()["1m"]! - (10 * 0.5 + 40 + 70 * weight) / (1.5 + weight)
+    ) < 1e-9
+  );
+});
+
+test("combines the moving averages of several label sets", (t) => {
+  const clock = createClock();
+  const sm = new SnapMetrics({
+    halfLives: ["1m"],
+    clock: clock.read,
+    removeExpiredRecordsThrottlingMS: false,
+  });
+
+  sm.record("latency", 10, { route: "/a" });
+  sm.record("latency", 20, { route: "/b" });
+  sm.record("latency", 30, { route: "/b" });
+
+  t.deepEqual(sm.getEWMAs("latency"), { "1m": 20 });
+  t.deepEqual(sm.getEWMAs({ series: "latency", labels: { route: "/b" } }), {
+    "1m": 25,
+  });
+  t.deepEqual(sm.getEWMAs({ series: "latency", labels: { route: "/c" } }), {
+    "1m": null,
+  });
+});
+
+test("follows the rate of a counter without a cliff when increments stop", (t) => {
+  const clock = createClock();
+  const sm = new SnapMetrics({
+    timeWindows: ["1m"],
+    halfLives: ["1m", "15m"],
+    clock: clock.read,
+    removeExpiredRecordsThrottlingMS: false,
+  });
+
+  t.deepEqual(sm.getCounterEWMARates("api_calls"), { "1m": null, "15m": null });
+
+  for (let second = 0; second < 3600; second++) {
+    sm.increment("api_calls", 2, { status: second % 2 ? "200" : "500" });
+    clock.now += 1000;
+  }
+
+  const rates = sm.getCounterEWMARates("api_calls");
+  t.true(Math.abs(rates["1m"]! - 2) < 0.05);
+  t.true(Math.abs(rates["15m"]! - 2 * (1 - 1 / 16)) < 0.05);
+  t.true(
+    Math.abs(
+      sm.getCounterEWMARates("api_calls", { status: "200" })["1m"]! - 1
+    ) < 0.05
+  );
+
+  // The window drops to nothing once the increments leave it, the moving rate halves every half-life
+  clock.now += 60_000;
+  t.deepEqual(sm.getCounterRates("api_calls"), { "1m": null });
+  t.true(
+    Math.abs(sm.getCounterEWMARates("api_calls")["1m"]! - rates["1m"]! / 2) <
+      1e-9
+  );
+});
+
+test("drops moving averages that have decayed to nothing", (t) => {
+  const clock = createClock();
+  const sm = new SnapMetrics({
+    timeWindows: ["1m"],
+    halfLives: ["1s"],
+    clock: clock.read,
+    removeExpiredRecordsThrottlingMS: false,
+  });
+
+  sm.record(5);
+  sm.increment("api_calls");
+  clock.now = 31_000;
+  t.deepEqual(sm.getEWMAs(), { "1s": 5 });
+
+  clock.now = 33_000;
+  t.deepEqual(sm.getEWMAs(), { "1s": null });
+  t.deepEqual(sm.getCounterEWMARates("api_calls"), { "1s": null });
+});
+
+test("throws on invalid half-lives", (t) => {
+  t.throws(
+    () => new SnapMetrics({ halfLives: ["1d" as unknown as TimeWindow] }),
+    { message: "Invalid time window format: 1d" }
+  );
+});
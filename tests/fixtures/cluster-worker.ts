@@ -0,0 +1,28 @@
+import { SnapMetrics, createMetricsReporter } from "../../src/index.js";
+
+// Records values in two batches, then exits gracefully or crashes before reporting the second batch
+const value = Number(process.env["WORKER_VALUE"]);
+const crash = process.env["WORKER_CRASH"] === "true";
+
+const metrics = new SnapMetrics(["1m"]);
+const reporter = createMetricsReporter(metrics, { intervalMS: 10 });
+
+const recordBatch = () => {
+  for (let i = 0; i < 5; i++) {
+    metrics.record(value);
+    metrics.increment("requests");
+  }
+};
+
+recordBatch();
+reporter.flush();
+
+setTimeout(() => {
+  recordBatch();
+  if (crash) {
+    process.send!({ type: "crashing" }, () => process.exit(1));
+  } else {
+    reporter.stop();
+    process.send!({ type: "done" }, () => process.exit(0));
+  }
+}, 50);
@@ -0,0 +1,89 @@
+import test from "ava";
+import { SnapMetrics } from "../src/index.js";
+
+const createClock = (start = 0) => {
+  const clock = { now: start, read: () => clock.now };
+  return clock;
+};
+
+test("averages gauges over the time each value was held", (t) => {
+  const clock = createClock();
+  const sm = new SnapMetrics({ timeWindows: ["1m"], clock: clock.read });
+
+  sm.set("queue_depth", 100);
+  clock.now = 59_000;
+  sm.set("queue_depth", 0);
+  clock.now = 60_000;
+
+  const { "1m": stats } = sm.getGauge("queue_depth");
+  t.like(stats, { latest: 0, minimum: 0, maximum: 100 });
+  t.is(Math.round(stats!.average * 100) / 100, 98.33);
+});
+
+test("starts each window with the value held at its start", (t) => {
+  const clock = createClock();
+  const sm = new SnapMetrics({
+    timeWindows: ["10s", "1m"],
+    clock: clock.read,
+    removeExpiredRecordsThrottlingMS: false,
+  });
+
+  sm.set("connections", 10);
+  clock.now = 20_000;
+  sm.set("connections", 30);
+  clock.now = 40_000;
+  sm.set("connections", 20);
+  clock.now = 45_000;
+
+  t.deepEqual(sm.getGauge("connections"), {
+    "10s": { latest: 20, minimum: 20, maximum: 30, average: 25 },
+    "1m": { latest: 20, minimum: 10, maximum: 30, average: 20 },
+  });
+
+  // The latest value is kept after every change expires
+  clock.now = 200_000;
+  t.deepEqual(sm.getGauge("connections"), {
+    "10s": { latest: 20, minimum: 20, maximum: 20, average: 20 },
+    "1m": { latest: 20, minimum: 20, maximum: 20, average: 20 },
+  });
+});
+
+test("lists every gauge with its labels and latest value", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  t.deepEqual(sm.getGauges(), []);
+
+  sm.set("queue_depth", 42);
+  sm.set("queue_depth", 3, { queue: "emails" });
+  sm.adjust("connections", 2);
+  sm.set("queue_depth", 40);
+
+  t.deepEqual(sm.getGauges(), [
+    { name: "queue_depth", labels: {}, latest: 40 },
+    { name: "queue_depth", labels: { queue: "emails" }, latest: 3 },
+    { name: "connections", labels: {}, latest: 2 },
+  ]);
+});
+
+test("adjusts gauges by a delta", (t) => {
+  const clock = createClock();
+  const sm = new SnapMetrics({ timeWindows: ["1m"], clock: clock.read });
+
+  sm.adjust("connections", 1);
+  sm.adjust("connections", 1);
+  clock.now = 1000;
+  sm.adjust("connections", -1);
+  sm.adjust("connections", 5, { pool: "replica" });
+
+  t.like(sm.getGauge("connections")["1m"], {
+    latest: 1,
+    minimum: 1,
+    maximum: 2,
+  });
+  t.like(sm.getGauge("connections", { pool: "replica" })["1m"], {
+    latest: 5,
+    average: 5,
+  });
+  t.deepEqual(sm.getGauge("connections", { pool: "primary" }), { "1m": null });
+  t.deepEqual(sm.getGauge("unknown"), { "1m": null });
+});
@@ -0,0 +1,106 @@
+import test from "ava";
+import sinon from "sinon";
+import {
+  SnapMetrics,
+  linearBuckets,
+  exponentialBuckets,
+} from "../src/index.js";
+
+let clock: sinon.SinonFakeTimers;
+test.before((t) => {
+  clock = sinon.useFakeTimers();
+});
+
+test.after((t) => {
+  clock.restore();
+});
+
+test("returns cumulative bucket counts per window", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  [3, 5, 7, 12, 40].forEach((v) => sm.record(v));
+
+  t.deepEqual(sm.getHistograms([5, 10, 20]), {
+    "1m": {
+      le: { "5": 2, "10": 3, "20": 4, "+Inf": 5 },
+      sum: 67,
+      count: 5,
+    },
+  });
+});
+
+test("returns null for empty windows", (t) => {
+  const sm = new SnapMetrics(["1m", "5m"]);
+
+  sm.record(1);
+  clock.tick(2 * 60 * 1000);
+
+  t.deepEqual(sm.getHistograms([5]), {
+    "1m": null,
+    "5m": { le: { "5": 1, "+Inf": 1 }, sum: 1, count: 1 },
+  });
+});
+
+test("combines label sets and selects series", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  sm.record("latency", 4, { route: "/a" });
+  sm.record("latency", 8, { route: "/b" });
+  sm.record("latency", 16, { route: "/b" });
+  sm.record(100);
+
+  t.deepEqual(sm.getHistograms([5, 10], "latency"), {
+    "1m": { le: { "5": 1, "10": 2, "+Inf": 3 }, sum: 28, count: 3 },
+  });
+  t.deepEqual(
+    sm.getHistograms([5, 10], { series: "latency", labels: { route: "/b" } }),
+    { "1m": { le: { "5": 0, "10": 1, "+Inf": 2 }, sum: 24, count: 2 } }
+  );
+});
+
+test("estimates bucket counts with bucketed storage", (t) => {
+  const sm = new SnapMetrics({ timeWindows: ["1m"], storage: "bucketed" });
+
+  for (let i = 1; i <= 100; i++) sm.record(i);
+
+  const histogram = sm.getHistograms([0.5, 25.5, 50.5, 200])["1m"]!;
+  t.is(histogram.le["0.5"], 0);
+  t.true(Math.abs(histogram.le["25.5"]! - 25) <= 1);
+  t.true(Math.abs(histogram.le["50.5"]! - 50) <= 1);
+  t.is(histogram.le["200"], 100);
+  t.is(histogram.le["+Inf"], 100);
+  t.is(histogram.sum, 5050);
+});
+
+test("generates linear and exponential buckets", (t) => {
+  t.deepEqual(linearBuckets(10, 10, 5), [10, 20, 30, 40, 50]);
+  t.deepEqual(exponentialBuckets(1, 2, 5), [1, 2, 4, 8, 16]);
+
+  const error1 = t.throws(() => linearBuckets(0, 0, 5));
+  t.is(error1.message, "Bucket width must be a positive number");
+
+  const error2 = t.throws(() => exponentialBuckets(0, 2, 5));
+  t.is(error2.message, "Bucket start must be a positive number");
+
+  const error3 = t.throws(() => exponentialBuckets(1, 1, 5));
+  t.is(error3.message, "Bucket factor must be greater than 1");
+
+  const error4 = t.throws(() => linearBuckets(0, 1, 0));
+  t.is(error4.message, "Bucket count must be a positive integer");
+});
+
+test("throws an error for unordered buckets", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  const error1 = t.throws(() => sm.getHistograms([10, 5]));
+  t.is(
+    error1.message,
+    "Histogram buckets must be finite numbers in increasing order"
+  );
+
+  const error2 = t.throws(() => sm.getHistograms([5, Infinity]));
+  t.is(
+    error2.message,
+    "Histogram buckets must be finite numbers in increasing order"
+  );
+});
@@ -0,0 +1,164 @@
+import test from "ava";
+import sinon from "sinon";
+import { SnapMetrics } from "../src/index.js";
+
+let clock: sinon.SinonFakeTimers;
+test.before((t) => {
+  clock = sinon.useFakeTimers();
+});
+
+test.after((t) => {
+  clock.restore();
+});
+
+const createClock = (start = 0) => {
+  const clock = { now: start, read: () => clock.now };
+  return clock;
+};
+
+test("summarizes completed periods, oldest first", (t) => {
+  const time = createClock(120_000);
+  const sm = new SnapMetrics({
+    timeWindows: ["1m"],
+    periods: ["1m"],
+    clock: time.read,
+  });
+
+  for (let i = 1; i <= 100; i++) {
+    sm.record(i);
+    if (i === 50) time.now = 150_000;
+  }
+  sm.increment("api_calls", 2);
+  time.now = 185_000;
+  sm.record(1000); // Current period, not completed yet
+
+  const [summary, ...others] = sm
+    .getHistory("1m", { percentiles: [0, 95, 100] })
+    .reverse();
+  t.is(others.length, 59);
+  t.like(summary, {
+    start: 120_000,
+    end: 180_000,
+    count: 100,
+    sum: 5050,
+    average: 50.5,
+    percentile0: 1,
+    percentile100: 100,
+    minimum: 1,
+    maximum: 100,
+    counters: { api_calls: 2 },
+  });
+  const median = summary!.median!;
+  t.true(Math.abs(median - 50.5) <= 0.01 * 50.5 + 0.5, `${median}`);
+  const p95 = summary!["percentile95"]!;
+  t.true(Math.abs(p95 - 95.05) <= 0.01 * 95.05 + 0.5, `${p95}`);
+  t.like(others[0], { start: 60_000, count: 0, median: null });
+});
+
+test("includes empty periods up to the history length", (t) => {
+  const time = createClock(0);
+  const sm = new SnapMetrics({
+    periods: ["10s"],
+    periodHistory: 3,
+    clock: time.read,
+  });
+
+  sm.record(1);
+  time.now = 25_000;
+  sm.record(2);
+  time.now = 35_000;
+
+  const history = sm.getHistory("10s");
+  t.deepEqual(
+    history.map(({ start, count, average }) => [start, count, average]),
+    [
+      [0, 1, 1],
+      [10_000, 0, null],
+      [20_000, 1, 2],
+    ]
+  );
+  t.deepEqual(history[1]!.counters, {});
+  t.is(sm.getHistory("10s", { periods: 2 }).length, 2);
+  t.is(sm.getHistory("10s", { periods: 10 }).length, 3);
+
+  // Periods that fall out of the history are dropped
+  time.now = 45_000;
+  t.deepEqual(
+    sm.getHistory("10s").map(({ count }) => count),
+    [0, 1, 0]
+  );
+});
+
+test("aligns periods to the wall clock or to the start of the instance", (t) => {
+  clock.setSystemTime(0);
+  clock.tick(95_000);
+
+  const aligned = new SnapMetrics({ periods: ["1m"] });
+  const started = new SnapMetrics({
+    periods: ["1m"],
+    periodAlignment: "start",
+  });
+  aligned.record(1);
+  started.record(1);
+
+  clock.tick(60_000);
+
+  const alignedHistory = aligned.getHistory("1m");
+  t.like(alignedHistory.at(-1), { start: 60_000, end: 120_000, count: 1 });
+  t.like(alignedHistory.at(-2), { start: 0, count: 0 });
+
+  const startedHistory = started.getHistory("1m");
+  t.like(startedHistory.at(-1), { start: 95_000, end: 155_000, count: 1 });
+});
+
+test("adds values and events with earlier timestamps to their period", (t) => {
+  const time = createClock(300_000);
+  const sm = new SnapMetrics({
+    timeWindows: ["1m"],
+    periods: ["1m"],
+    clock: time.read,
+  });
+
+  sm.record("latency", 5, { route: "/a" }, { timestamp: 130_000 }); // Older than the time window
+  sm.record("latency", 7, { route: "/b" }, { timestamp: 170_000 });
+  sm.increment("api_calls", 1, {}, { timestamp: 250_000 });
+
+  const history = sm.getHistory("1m", { periods: 3, series: "latency" });
+  t.deepEqual(
+    history.map(({ start, sum, counters }) => [start, sum, counters]),
+    [
+      [120_000, 12, {}],
+      [180_000, 0, {}],
+      [240_000, 0, { api_calls: 1 }],
+    ]
+  );
+
+  const filtered = sm.getHistory("1m", {
+    periods: 3,
+    series: "latency",
+    labels: { route: "/b" },
+  });
+  t.is(filtered[0]!.sum, 7);
+  t.deepEqual(sm.getCounts("latency"), { "1m": 0 });
+});
+
+test("throws an error for invalid period options", (t) => {
+  const error1 = t.throws(() => new SnapMetrics({ periodHistory: 0 }));
+  t.is(error1.message, "Period history must be a positive integer");
+
+  const error2 = t.throws(
+    () => new SnapMetrics({ periodAlignment: "hour" as "clock" })
+  );
+  t.is(error2.message, "Invalid period alignment: hour");
+
+  const sm = new SnapMetrics({ periods: ["1m"] });
+
+  const error3 = t.throws(() => sm.getHistory("5m"));
+  t.is(error3.message, "Unknown period: 5m");
+
+  const error4 = t.throws(() => sm.getHistory("1m", { periods: 1.5 }));
+  t.is(error4.message, "Periods must be a positive integer");
+
+  const error5 = t.throws(() => sm.getHistory("1m", { percentiles: [101] }));
+  t.is(error5.message, "Percentile must be between 0 and 100");
+});
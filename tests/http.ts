@@ -0,0 +1,294 @@
+import test from "ava";
+import http from "node:http";
+import net, { type AddressInfo } from "node:net";
+import {
+  SnapMetrics,
+  createHttpMiddleware,
+  serveMetrics,
+} from "../src/index.js";
+
+/**
+ * Starts a server on a free port, measuring every request before handing it to the handler.
+ */
+const startServer = async (
+  middleware: ReturnType<typeof createHttpMiddleware>,
+  handler: http.RequestListener
+) => {
+  const server = http.createServer((req, res) => {
+    middleware(req, res, () => handler(req, res));
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+};
+
+test("records durations, response sizes and requests per status class", async (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  const server = await startServer(createHttpMiddleware(sm), (req, res) => {
+    if (req.url === "/missing") {
+      res.statusCode = 404;
+      res.end("Not found");
+      return;
+    }
+    res.write("Hello, ");
+    setTimeout(() => res.end(Buffer.from("wörld")), 20);
+  });
+
+  const bodies = await Promise.all(
+    ["/", "/", "/missing"].map(async (path) =>
+      (await fetch(server.url + path)).text()
+    )
+  );
+  await server.close();
+
+  t.deepEqual(bodies, ["Hello, wörld", "Hello, wörld", "Not found"]);
+  t.deepEqual(sm.getCounter("http_requests", { status_class: "2xx" }), {
+    "1m": 2,
+  });
+  t.deepEqual(sm.getCounter("http_requests", { status_class: "4xx" }), {
+    "1m": 1,
+  });
+  t.deepEqual(sm.getCounter("http_requests", { method: "GET" }), { "1m": 3 });
+
+  const ok = {
+    series: "http_request_duration",
+    labels: { status_class: "2xx" },
+  };
+  t.deepEqual(sm.getCounts(ok), { "1m": 2 });
+  t.true(sm.getMinimums(ok)["1m"]! >= 15);
+  t.deepEqual(
+    sm.getSums({ series: "http_response_size", labels: { method: "GET" } }),
+    { "1m": 2 * 13 + 9 }
+  );
+});
+
+test("counts errors and aborted requests separately", async (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  let received: () => void;
+  const receivedRequest = new Promise<void>((resolve) => (received = resolve));
+  let aborted: () => void;
+  const abortedRequest = new Promise<void>((resolve) => (aborted = resolve));
+
+  const server = await startServer(
+    createHttpMiddleware(sm, { prefix: "api_" }),
+    (req, res) => {
+      if (req.url === "/fail") {
+        res.statusCode = 503;
+        res.end();
+      } else {
+        res.on("close", () => aborted()); // Never responds
+        received();
+      }
+    }
+  );
+
+  await fetch(server.url + "/fail", { method: "POST" });
+  const controller = new AbortController();
+  const pending = fetch(server.url + "/hang", { signal: controller.signal });
+  await receivedRequest;
+  controller.abort();
+  await t.throwsAsync(pending, { any: true });
+  await abortedRequest;
+  await server.close();
+
+  t.deepEqual(sm.getCounter("api_request_errors"), { "1m": 1 });
+  t.deepEqual(sm.getCounter("api_request_errors", { method: "POST" }), {
+    "1m": 1,
+  });
+  t.deepEqual(sm.getCounter("api_requests_aborted", { method: "GET" }), {
+    "1m": 1,
+  });
+  t.deepEqual(sm.getCounter("api_requests", { status_class: "5xx" }), {
+    "1m": 1,
+  });
+  t.deepEqual(sm.getSeries(), { "1m": {} }); // Neither is recorded as a latency
+});
+
+test("labels requests with their route", async (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  const routes: Record<string, string> = { "/users/1": "/users/:id" };
+  const server = await startServer(
+    createHttpMiddleware(sm, { route: (req) => routes[req.url ?? ""] }),
+    (_, res) => res.end()
+  );
+
+  await fetch(server.url + "/users/1");
+  await fetch(server.url + "/other");
+  await server.close();
+
+  t.deepEqual(sm.getCounterByLabels("http_requests", { groupBy: ["route"] }), [
+    { labels: { route: "/users/:id" }, values: { "1m": 1 } },
+    { labels: {}, values: { "1m": 1 } },
+  ]);
+});
+
+test("reads the route Express matched", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  const middleware = createHttpMiddleware(sm, { route: true });
+  const req: http.IncomingMessage & { route?: { path: string } } =
+    Object.assign(new http.IncomingMessage(new net.Socket()), {
+      method: "GET",
+      baseUrl: "/api",
+    });
+  const res = new http.ServerResponse(req);
+
+  let called = false;
+  middleware(req, res, () => (called = true));
+  t.true(called);
+
+  req.route = { path: "/users/:id" }; // Set by the router after the middleware ran
+  res.emit("finish");
+
+  t.deepEqual(sm.getCounter("http_requests", { route: "/api/users/:id" }), {
+    "1m": 1,
+  });
+});
+
+/**
+ * Serves metrics on a free port, with values, a counter and a gauge recorded into them.
+ */
+const startMetricsServer = async () => {
+  const sm = new SnapMetrics(["1m", "5m"]);
+  [10, 20, 30].forEach((v) => sm.record("latency", v, { route: "/<a>" }));
+  sm.record("size", 512);
+  sm.increment("api_calls", 2);
+  sm.set("queue_depth", 7, { queue: "emails" });
+
+  const server = serveMetrics(sm, { port: 0, host: "127.0.0.1" });
+  await new Promise((resolve) => server.once("listening", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/metrics`,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+};
+
+test("serves metrics, counters and gauges as JSON, selected by query parameters", async (t) => {
+  const server = await startMetricsServer();
+
+  const response = await fetch(server.url);
+  const all = await response.json();
+  t.is(response.headers.get("content-type"), "application/json; charset=utf-8");
+  t.deepEqual(Object.keys(all.metrics), ["latency", "size"]);
+  t.like(all.metrics.latency["5m"], {
+    count: 3,
+    average: 20,
+    percentile90: 28,
+  });
+  t.deepEqual(all.counters, { "1m": { api_calls: 2 }, "5m": { api_calls: 2 } });
+  t.deepEqual(all.gauges, [
+    { name: "queue_depth", labels: { queue: "emails" }, latest: 7 },
+  ]);
+
+  const selected = await (
+    await fetch(`${server.url}?windows=1m&percentiles=50,99&series=latency`)
+  ).json();
+  t.deepEqual(Object.keys(selected.metrics), ["latency"]);
+  t.deepEqual(Object.keys(selected.metrics.latency), ["1m"]);
+  t.like(selected.metrics.latency["1m"], { percentile50: 20 });
+  t.false("percentile90" in selected.metrics.latency["1m"]);
+  t.deepEqual(selected.counters, { "1m": { api_calls: 2 } });
+
+  await server.close();
+});
+
+test("negotiates Prometheus text and HTML from the Accept header", async (t) => {
+  const server = await startMetricsServer();
+
+  // The Accept header Prometheus scrapes with
+  const prometheus = await fetch(`${server.url}?windows=5m&series=size`, {
+    headers: {
+      accept:
+        "application/openmetrics-text;version=1.0.0;q=0.5,text/plain;version=0.0.4;q=0.3,*/*;q=0.1",
+    },
+  });
+  t.is(
+    prometheus.headers.get("content-type"),
+    "text/plain; version=0.0.4; charset=utf-8"
+  );
+  const text = await prometheus.text();
+  t.true(text.includes('size_average{window="5m"} 512'));
+  t.false(text.includes("latency"));
+  t.false(text.includes('window="1m"'));
+  t.true(text.includes('api_calls{window="5m"} 2'));
+  t.true(text.includes('queue_depth{queue="emails"} 7'));
+  t.true(text.includes('queue_depth_average{queue="emails",window="5m"} 7'));
+
+  const html = await fetch(server.url, {
+    headers: {
+      accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+    },
+  });
+  t.is(html.headers.get("content-type"), "text/html; charset=utf-8");
+  const page = await html.text();
+  t.true(page.includes('<meta http-equiv="refresh" content="5">'));
+  t.true(page.includes("<h2>latency</h2>"));
+  t.true(page.includes("<tr><td>average</td><td>20</td><td>20</td></tr>"));
+  t.true(page.includes("<tr><td>api_calls</td><td>2</td><td>2</td></tr>"));
+  t.true(
+    page.includes(
+      "<tr><td>queue_depth{queue=&quot;emails&quot;}</td><td>7</td></tr>"
+    )
+  );
+
+  const overridden = await fetch(`${server.url}?format=json`, {
+    headers: { accept: "text/html" },
+  });
+  t.is(
+    overridden.headers.get("content-type"),
+    "application/json; charset=utf-8"
+  );
+
+  await server.close();
+});
+
+test("rejects invalid queries, methods and paths", async (t) => {
+  const server = await startMetricsServer();
+
+  const window = await fetch(`${server.url}?windows=1h`);
+  t.is(window.status, 400);
+  t.is(await window.text(), "Unknown time window: 1h\n");
+
+  const percentile = await fetch(`${server.url}?percentiles=101`);
+  t.is(percentile.status, 400);
+  t.is(await percentile.text(), "Percentile must be between 0 and 100\n");
+
+  const format = await fetch(`${server.url}?format=xml`);
+  t.is(format.status, 400);
+  t.is(await format.text(), "Invalid format: xml\n");
+
+  const method = await fetch(server.url, { method: "POST" });
+  t.is(method.status, 405);
+  t.is(method.headers.get("allow"), "GET, HEAD");
+
+  t.is((await fetch(server.url.replace("/metrics", "/other"))).status, 404);
+
+  await server.close();
+});
+
+test("rejects malformed request targets without crashing", async (t) => {
+  const server = await startMetricsServer();
+  const { port } = new URL(server.url);
+
+  // fetch() normalizes URLs, so the request target is written by hand
+  const response = await new Promise<string>((resolve, reject) => {
+    const socket = net.connect(Number(port), "127.0.0.1", () => {
+      socket.end(
+        "GET //[ HTTP/1.1\r\nHost: localhost\r\nConnection: close\r\n\r\n"
+      );
+    });
+    let data = "";
+    socket.on("data", (chunk) => (data += chunk));
+    socket.on("end", () => resolve(data));
+    socket.on("error", reject);
+  });
+  t.true(response.startsWith("HTTP/1.1 400"));
+  t.true(response.includes("Invalid request target\n"));
+
+  t.is((await fetch(server.url)).status, 200);
+
+  await server.close();
+});
@@ -0,0 +1,172 @@
+import test from "ava";
+import sinon from "sinon";
+import { SnapMetrics } from "../src/index.js";
+
+let clock: sinon.SinonFakeTimers;
+test.before((t) => {
+  clock = sinon.useFakeTimers();
+});
+
+test.after((t) => {
+  clock.restore();
+});
+
+const recordRequests = (sm: SnapMetrics) => {
+  sm.record("http_latency", 10, { route: "/users", status: "200" });
+  sm.record("http_latency", 20, { route: "/users", status: "200" });
+  sm.record("http_latency", 60, { route: "/users", status: "500" });
+  sm.record("http_latency", 5, { route: "/posts", status: "200" });
+};
+
+test("aggregates all label sets when no filter is given", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  recordRequests(sm);
+
+  t.deepEqual(sm.getCounts("http_latency"), { "1m": 4 });
+  t.deepEqual(sm.getSums("http_latency"), { "1m": 95 });
+  t.deepEqual(sm.getMaximums("http_latency"), { "1m": 60 });
+  t.deepEqual(sm.getSeries(), { "1m": { http_latency: 4 } });
+});
+
+test("filters values by labels", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  recordRequests(sm);
+
+  const users = { series: "http_latency", labels: { route: "/users" } };
+  t.deepEqual(sm.getCounts(users), { "1m": 3 });
+  t.deepEqual(sm.getAverages(users), { "1m": 30 });
+  t.deepEqual(sm.getMedians(users), { "1m": 20 });
+  t.deepEqual(sm.getMinimums(users), { "1m": 10 });
+
+  const ok = {
+    series: "http_latency",
+    labels: { route: "/users", status: "200" },
+  };
+  t.deepEqual(sm.getAverages(ok), { "1m": 15 });
+  t.deepEqual(sm.getPercentiles(50, ok), { "1m": 15 });
+
+  t.deepEqual(
+    sm.getAverages({ series: "http_latency", labels: { route: "/none" } }),
+    { "1m": null }
+  );
+});
+
+test("records labelled values into the default series", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  sm.record(1, { region: "eu" });
+  sm.record(3, { region: "us" });
+
+  t.deepEqual(sm.getAverages(), { "1m": 2 });
+  t.deepEqual(sm.getAverages({ labels: { region: "us" } }), { "1m": 3 });
+});
+
+test("treats empty label values as missing labels", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  sm.record("jobs", 1, { queue: "" });
+  sm.record("jobs", 2);
+
+  t.is(sm.getMetricsByLabels({ series: "jobs" }).length, 1);
+  t.deepEqual(sm.getCounts({ series: "jobs", labels: { queue: "" } }), {
+    "1m": 2,
+  });
+});
+
+test("getMetrics filters by labels", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  recordRequests(sm);
+
+  const metrics = sm.getMetrics({
+    series: "http_latency",
+    labels: { status: "200" },
+    percentiles: [50],
+  });
+  const selector = { series: "http_latency", labels: { status: "200" } };
+
+  t.deepEqual(metrics, {
+    "1m": {
+      count: 3,
+      rate: 3 / 60,
+      sum: 35,
+      average: 35 / 3,
+      median: 10,
+      percentile50: 10,
+      minimum: 5,
+      maximum: 20,
+      standardDeviation: sm.getStandardDeviations(selector)["1m"]!,
+      variance: sm.getVariances(selector)["1m"]!,
+      coefficientOfVariation: sm.getCoefficientsOfVariation(selector)["1m"]!,
+      skewness: sm.getSkewnesses(selector)["1m"]!,
+      kurtosis: sm.getKurtoses(selector)["1m"]!,
+    },
+  });
+});
+
+test("groups metrics by label keys", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  recordRequests(sm);
+
+  const groups = sm.getMetricsByLabels({
+    series: "http_latency",
+    groupBy: ["route"],
+  });
+
+  t.deepEqual(
+    groups.map(({ labels, metrics }) => [labels, metrics["1m"]!["count"]]),
+    [
+      [{ route: "/users" }, 3],
+      [{ route: "/posts" }, 1],
+    ]
+  );
+});
+
+test("groups metrics by full label sets by default", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  recordRequests(sm);
+
+  const groups = sm.getMetricsByLabels({
+    series: "http_latency",
+    labels: { route: "/users" },
+  });
+
+  t.deepEqual(
+    groups.map(({ labels, metrics }) => [labels, metrics["1m"]!["average"]]),
+    [
+      [{ route: "/users", status: "200" }, 15],
+      [{ route: "/users", status: "500" }, 60],
+    ]
+  );
+});
+
+test("keeps labelled counters separately and sums them by name", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  sm.increment("api_calls", 1, { route: "/users", status: "200" });
+  sm.increment("api_calls", 1, { route: "/users", status: "200" });
+  sm.increment("api_calls", 1, { route: "/users", status: "500" });
+  sm.increment("api_calls", 1, { route: "/posts", status: "200" });
+  sm.increment("errors");
+
+  t.deepEqual(sm.getCounters(), { "1m": { api_calls: 4, errors: 1 } });
+  t.deepEqual(sm.getCounter("api_calls"), { "1m": 4 });
+  t.deepEqual(sm.getCounter("api_calls", { status: "200" }), { "1m": 3 });
+  t.deepEqual(sm.getCounter("api_calls", { status: "404" }), { "1m": null });
+  t.deepEqual(sm.getCounterByLabels("api_calls", { groupBy: ["status"] }), [
+    { labels: { status: "200" }, values: { "1m": 3 } },
+    { labels: { status: "500" }, values: { "1m": 1 } },
+  ]);
+});
+
+test("expires labelled counters independently", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  sm.increment("api_calls", 1, { status: "200" });
+  clock.tick(30 * 1000);
+  sm.increment("api_calls", 1, { status: "500" });
+  clock.tick(31 * 1000);
+
+  t.deepEqual(sm.getCounterByLabels("api_calls"), [
+    { labels: { status: "500" }, values: { "1m": 1 } },
+  ]);
+});
@@ -0,0 +1,180 @@
+import test from "ava";
+import sinon from "sinon";
+import { SnapMetrics } from "../src/index.js";
+
+let clock: sinon.SinonFakeTimers;
+test.before((t) => {
+  clock = sinon.useFakeTimers();
+});
+
+test.after((t) => {
+  clock.restore();
+});
+
+test("merges the values and counters of another instance", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  const other = new SnapMetrics(["1m"]);
+
+  [1, 2].forEach((v) => sm.record(v));
+  [3, 4, 5, 6, 7, 8].forEach((v) => other.record(v));
+  sm.increment("api_calls", 2);
+  other.increment("api_calls", 3);
+  other.increment("errors");
+
+  sm.merge(other);
+
+  t.deepEqual(sm.getCounts(), { "1m": 8 });
+  t.deepEqual(sm.getSums(), { "1m": 36 });
+  t.deepEqual(sm.getAverages(), { "1m": 4.5 }); // Not the average of the averages (1.5 and 5.5)
+  t.deepEqual(sm.getMinimums(), { "1m": 1 });
+  t.deepEqual(sm.getMaximums(), { "1m": 8 });
+  t.deepEqual(sm.getMedians(), { "1m": 4.5 });
+  t.deepEqual(sm.getCounters(), { "1m": { api_calls: 5, errors: 1 } });
+
+  // The other instance is left unchanged
+  t.deepEqual(other.getCounts(), { "1m": 6 });
+});
+
+test("merges gauge changes in time order", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  const other = new SnapMetrics(["1m"]);
+
+  sm.set("queue_depth", 10);
+  clock.tick(10_000);
+  other.set("queue_depth", 20);
+  other.set("connections", 5, { pool: "replica" });
+  clock.tick(10_000);
+  sm.set("queue_depth", 30);
+  clock.tick(10_000);
+
+  sm.merge(other);
+
+  // The latest value is the one set last by either instance
+  t.deepEqual(sm.getGauge("queue_depth"), {
+    "1m": { latest: 30, minimum: 10, maximum: 30, average: 20 },
+  });
+  t.deepEqual(sm.getGauges(), [
+    { name: "queue_depth", labels: {}, latest: 30 },
+    { name: "connections", labels: { pool: "replica" }, latest: 5 },
+  ]);
+});
+
+test("merges series and label sets separately", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  const other = new SnapMetrics(["1m"]);
+
+  sm.record("latency", 10, { route: "/a" });
+  other.record("latency", 20, { route: "/a" });
+  other.record("latency", 30, { route: "/b" });
+  other.record("payload_size", 512);
+
+  sm.merge(other.toSnapshot());
+
+  t.deepEqual(sm.getAverages({ series: "latency", labels: { route: "/a" } }), {
+    "1m": 15,
+  });
+  t.deepEqual(sm.getAverages("latency"), { "1m": 20 });
+  t.deepEqual(sm.getSeries(), { "1m": { latency: 3, payload_size: 1 } });
+});
+
+test("keeps merged values in time order for expiry", (t) => {
+  const sm = new SnapMetrics(["1m", "5m"]);
+  const other = new SnapMetrics(["1m", "5m"]);
+
+  other.record(100);
+  other.increment("api_calls");
+  clock.tick(30 * 1000);
+  sm.record(200);
+  sm.increment("api_calls");
+  clock.tick(10 * 1000);
+  other.record(300);
+
+  sm.merge(other);
+  t.deepEqual(sm.getCounts(), { "1m": 3, "5m": 3 });
+
+  clock.tick(20 * 1000 + 1); // The first value of the other instance expires from "1m"
+  t.deepEqual(sm.getSums(), { "1m": 500, "5m": 600 });
+  t.deepEqual(sm.getCounter("api_calls"), { "1m": 1, "5m": 2 });
+
+  clock.tick(30 * 1000);
+  t.deepEqual(sm.getSums(), { "1m": 300, "5m": 600 });
+});
+
+test("combines several instances into a new one", (t) => {
+  const workers = [1, 2, 3].map((worker) => {
+    const sm = new SnapMetrics(["1m"]);
+    for (let i = 0; i < worker; i++) sm.record(worker * 10);
+    sm.increment("requests", worker);
+    return sm;
+  });
+
+  const combined = SnapMetrics.combine([
+    workers[0]!,
+    workers[1]!.toSnapshot(),
+    workers[2]!,
+  ]);
+
+  t.deepEqual(combined.getCounts(), { "1m": 6 });
+  t.deepEqual(combined.getSums(), { "1m": 140 });
+  t.deepEqual(combined.getCounter("requests"), { "1m": 6 });
+  t.deepEqual(workers[0]!.getCounts(), { "1m": 1 });
+});
+
+test("merges bucketed time slices", (t) => {
+  const options = {
+    timeWindows: ["1m" as const],
+    storage: "bucketed" as const,
+  };
+  const sm = new SnapMetrics(options);
+  const other = new SnapMetrics(options);
+
+  for (let i = 1; i <= 50; i++) {
+    sm.record(i);
+    other.record(i + 50);
+    clock.tick(100);
+  }
+
+  sm.merge(other);
+
+  t.deepEqual(sm.getCounts(), { "1m": 100 });
+  t.deepEqual(sm.getSums(), { "1m": 5050 });
+  t.deepEqual(sm.getMinimums(), { "1m": 1 });
+  t.deepEqual(sm.getMaximums(), { "1m": 100 });
+  const median = sm.getMedians()["1m"]!;
+  t.true(Math.abs(median - 50.5) <= 0.01 * 50.5 + 0.5, `${median}`);
+});
+
+test("throws an error for incompatible metrics", (t) => {
+  const sm = new SnapMetrics(["1m", "5m"]);
+
+  const error1 = t.throws(() => sm.merge(new SnapMetrics(["1m"])));
+  t.is(error1.message, "Cannot merge metrics with different time windows");
+
+  const error2 = t.throws(() =>
+    sm.merge(
+      new SnapMetrics({ timeWindows: ["5m", "1m"], storage: "bucketed" })
+    )
+  );
+  t.is(error2.message, "Cannot merge metrics with different storage modes");
+
+  const bucketed = new SnapMetrics({
+    timeWindows: ["1m"],
+    storage: "bucketed",
+  });
+  const error3 = t.throws(() =>
+    bucketed.merge(
+      new SnapMetrics({
+        timeWindows: ["1m"],
+        storage: "bucketed",
+        bucketDurationMS: 500,
+      })
+    )
+  );
+  t.is(
+    error3.message,
+    "Cannot merge bucketed metrics with different bucket durations or relative accuracies"
+  );
+
+  const error4 = t.throws(() => SnapMetrics.combine([]));
+  t.is(error4.message, "Cannot combine an empty list of metrics");
+});
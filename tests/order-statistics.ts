@@ -0,0 +1,134 @@
+import test from "ava";
+import sinon from "sinon";
+import { SnapMetrics } from "../src/index.js";
+import {
+  createExactStorage,
+  type ExactSeriesStore,
+} from "../src/exact-store.js";
+import { OrderStatisticTree } from "../src/order-tree.js";
+import { calculatePercentile } from "../src/stats.js";
+
+let clock: sinon.SinonFakeTimers;
+test.before((t) => {
+  clock = sinon.useFakeTimers();
+});
+
+test.after((t) => {
+  clock.restore();
+});
+
+// Deterministic pseudo-random integers, with plenty of duplicates
+const createRandom = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return Math.floor((seed / 2147483647) * 100);
+};
+
+test("keeps values in order as they are inserted and removed", (t) => {
+  const random = createRandom(7);
+  const tree = new OrderStatisticTree();
+  const values: number[] = [];
+
+  for (let i = 0; i < 2000; i++) {
+    const value = random();
+    tree.insert(value);
+    values.push(value);
+    if (i % 3 === 2) {
+      tree.remove(values.shift()!);
+    }
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  t.is(tree.size, sorted.length);
+  t.deepEqual(tree.toArray(), sorted);
+  t.is(tree.select(0), sorted[0]);
+  t.is(tree.select(500), sorted[500]);
+  t.is(tree.select(sorted.length), undefined);
+  t.is(tree.getMinimum(), sorted[0]);
+  t.is(tree.getMaximum(), sorted.at(-1));
+  t.is(tree.countAtMost(49.5), sorted.filter((v) => v <= 49.5).length);
+  t.is(tree.countAtMost(-1), 0);
+
+  sorted.forEach((value) => tree.remove(value));
+  t.is(tree.size, 0);
+  t.is(tree.getMinimum(), undefined);
+});
+
+test("calculates exact statistics while values are recorded and expire", (t) => {
+  const random = createRandom(11);
+  const sm = new SnapMetrics({
+    timeWindows: ["10s", "1m"],
+    removeExpiredRecordsThrottlingMS: false,
+  });
+  const recorded: { timestamp: number; value: number }[] = [];
+
+  for (let second = 0; second < 90; second++) {
+    for (let i = 0; i < 20; i++) {
+      const value = random();
+      sm.record(value);
+      recorded.push({ timestamp: Date.now(), value });
+    }
+    clock.tick(1000);
+
+    if (second % 15 !== 14) continue;
+    for (const [key, duration] of [
+      ["10s", 10_000],
+      ["1m", 60_000],
+    ] as const) {
+      const sorted = recorded
+        .filter(({ timestamp }) => Date.now() - timestamp <= duration)
+        .map(({ value }) => value)
+        .sort((a, b) => a - b);
+      for (const percentile of [0, 25, 50, 90, 99.9, 100]) {
+        t.is(
+          sm.getPercentiles(percentile)[key],
+          calculatePercentile(sorted, percentile)
+        );
+      }
+      t.is(sm.getMinimums()[key], sorted[0]);
+      t.is(sm.getMaximums()[key], sorted.at(-1));
+      t.deepEqual(sm.getHistograms([10, 50])[key]!.le, {
+        10: sorted.filter((v) => v <= 10).length,
+        50: sorted.filter((v) => v <= 50).length,
+        "+Inf": sorted.length,
+      });
+    }
+  }
+});
+
+test("builds the tree of a window only once its percentiles are read", (t) => {
+  const storage = createExactStorage({ "10s": 10_000, "1m": 60_000 });
+  const store = storage.createStore("latency", {}) as ExactSeriesStore;
+  [7, 3, 5].forEach((value, i) => store.record(i * 10_000, value));
+  store.record(25_000, 1);
+  store.removeExpired(28_000); // 7 and 3 leave the 10s window
+
+  t.is(store.getTree("10s", false), undefined);
+  t.is(storage.combine([store], "10s").getMaximum(), 5);
+  t.is(store.getTree("10s", false), undefined);
+
+  t.is(storage.combine([store], "10s").getPercentile(0), 1);
+  t.deepEqual(store.getTree("10s", false)?.toArray(), [1, 5]);
+  t.is(store.getTree("1m", false), undefined);
+
+  store.record(31_000, 2);
+  store.removeExpired(31_000); // 5 leaves the 10s window
+  t.deepEqual(store.getTree("10s", false)?.toArray(), [1, 2]);
+  t.deepEqual(storage.combine([store], "1m").getSortedValues(), [
+    1, 2, 3, 5, 7,
+  ]);
+});
+
+test("combines the sorted values of several label sets", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  [5, 1, 9].forEach((v) => sm.record("latency", v, { route: "/a" }));
+  [2, 8].forEach((v) => sm.record("latency", v, { route: "/b" }));
+
+  t.deepEqual(sm.getMedians("latency"), { "1m": 5 });
+  t.deepEqual(sm.getPercentiles(25, "latency"), { "1m": 2 });
+  t.deepEqual(sm.getMinimums("latency"), { "1m": 1 });
+  t.deepEqual(sm.getMaximums("latency"), { "1m": 9 });
+  t.deepEqual(sm.getMedians({ series: "latency", labels: { route: "/b" } }), {
+    "1m": 5,
+  });
+});
@@ -0,0 +1,186 @@
+import test from "ava";
+import sinon from "sinon";
+import { SnapMetrics, toPrometheus } from "../src/index.js";
+
+test("returns an empty exposition when nothing was recorded", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  t.is(toPrometheus(sm), "");
+});
+
+test("exports series as summaries and gauges with a window label", (t) => {
+  const sm = new SnapMetrics(["1m", "5m"]);
+
+  [1, 2, 3, 4, 5].forEach((v) => sm.record("db_latency", v));
+
+  t.is(
+    toPrometheus(sm, { percentiles: [50, 90] }),
+    [
+      '# HELP db_latency Rolling distribution of "db_latency" values per time window.',
+      "# TYPE db_latency summary",
+      'db_latency{window="1m",quantile="0.5"} 3',
+      'db_latency{window="1m",quantile="0.9"} 4.6',
+      'db_latency_sum{window="1m"} 15',
+      'db_latency_count{window="1m"} 5',
+      'db_latency{window="5m",quantile="0.5"} 3',
+      'db_latency{window="5m",quantile="0.9"} 4.6',
+      'db_latency_sum{window="5m"} 15',
+      'db_latency_count{window="5m"} 5',
+      '# HELP db_latency_average Rolling average of "db_latency" values per time window.',
+      "# TYPE db_latency_average gauge",
+      'db_latency_average{window="1m"} 3',
+      'db_latency_average{window="5m"} 3',
+      '# HELP db_latency_minimum Rolling minimum of "db_latency" values per time window.',
+      "# TYPE db_latency_minimum gauge",
+      'db_latency_minimum{window="1m"} 1',
+      'db_latency_minimum{window="5m"} 1',
+      '# HELP db_latency_maximum Rolling maximum of "db_latency" values per time window.',
+      "# TYPE db_latency_maximum gauge",
+      'db_latency_maximum{window="1m"} 5',
+      'db_latency_maximum{window="5m"} 5',
+      '# HELP db_latency_standard_deviation Rolling standard deviation of "db_latency" values per time window.',
+      "# TYPE db_latency_standard_deviation gauge",
+      `db_latency_standard_deviation{window="1m"} ${Math.sqrt(2)}`,
+      `db_latency_standard_deviation{window="5m"} ${Math.sqrt(2)}`,
+      "",
+    ].join("\n")
+  );
+});
+
+test("exports counters as gauge families with labels", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  sm.increment("api_calls", 1, { route: "/users", status: "200" });
+  sm.increment("api_calls", 1, { route: "/users", status: "200" });
+  sm.increment("api_calls", 1, { route: "/users", status: "500" });
+
+  t.is(
+    toPrometheus(sm, { prefix: "app_" }),
+    [
+      '# HELP app_api_calls Rolling total of the "api_calls" counter per time window.',
+      "# TYPE app_api_calls gauge",
+      'app_api_calls{route="/users",status="200",window="1m"} 2',
+      'app_api_calls{route="/users",status="500",window="1m"} 1',
+      "",
+    ].join("\n")
+  );
+});
+
+test("exports gauges with their latest value and window statistics", (t) => {
+  const clock = sinon.useFakeTimers();
+  t.teardown(() => clock.restore());
+  const sm = new SnapMetrics(["1m"]);
+
+  sm.set("queue_depth", 10, { queue: "emails" });
+  clock.tick(30_000);
+  sm.set("queue_depth", 20, { queue: "emails" });
+  sm.set("queue_depth", 4, { queue: "sms" });
+  clock.tick(30_000);
+
+  t.is(
+    toPrometheus(sm, { prefix: "app_" }),
+    [
+      '# HELP app_queue_depth Latest value of the "queue_depth" gauge.',
+      "# TYPE app_queue_depth gauge",
+      'app_queue_depth{queue="emails"} 20',
+      'app_queue_depth{queue="sms"} 4',
+      '# HELP app_queue_depth_average Rolling average of the "queue_depth" gauge per time window.',
+      "# TYPE app_queue_depth_average gauge",
+      'app_queue_depth_average{queue="emails",window="1m"} 15',
+      'app_queue_depth_average{queue="sms",window="1m"} 4',
+      '# HELP app_queue_depth_minimum Rolling minimum of the "queue_depth" gauge per time window.',
+      "# TYPE app_queue_depth_minimum gauge",
+      'app_queue_depth_minimum{queue="emails",window="1m"} 10',
+      'app_queue_depth_minimum{queue="sms",window="1m"} 4',
+      '# HELP app_queue_depth_maximum Rolling maximum of the "queue_depth" gauge per time window.',
+      "# TYPE app_queue_depth_maximum gauge",
+      'app_queue_depth_maximum{queue="emails",window="1m"} 20',
+      'app_queue_depth_maximum{queue="sms",window="1m"} 4',
+      "",
+    ].join("\n")
+  );
+});
+
+test("sanitizes names and escapes label values", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  sm.increment("5xx.errors/total", 1, { "user-agent": 'say "hi"\\\n' });
+
+  const lines = toPrometheus(sm).split("\n");
+  t.is(lines[1], "# TYPE _5xx_errors_total gauge");
+  t.is(
+    lines[2],
+    '_5xx_errors_total{user_agent="say \\"hi\\"\\\\\\n",window="1m"} 1'
+  );
+});
+
+test("suffixes colliding names and renames clashing labels", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  sm.record("latency", 5);
+  sm.increment("latency_count");
+  sm.increment("api.calls");
+  sm.increment("api_calls", 1, { window: "login" });
+
+  const text = toPrometheus(sm, { percentiles: [99.9] });
+  t.true(text.includes('latency{window="1m",quantile="0.999"} 5'));
+  t.true(text.includes('latency_count{window="1m"} 1'));
+  t.true(text.includes("# TYPE latency_count_2 gauge"));
+  t.true(text.includes('latency_count_2{window="1m"} 1'));
+  t.true(text.includes('api_calls{window="1m"} 1'));
+  t.true(text.includes("# TYPE api_calls_2 gauge"));
+  t.true(text.includes('api_calls_2{exported_window="login",window="1m"} 1'));
+
+  const families = text
+    .split("\n")
+    .filter((line) => line.startsWith("# TYPE"));
+  t.is(new Set(families).size, families.length);
+});
+
+test("omits null statistics of empty windows", (t) => {
+  const clock = sinon.useFakeTimers();
+  t.teardown(() => clock.restore());
+  const sm = new SnapMetrics(["1m", "5m"]);
+
+  sm.record("jobs", 7);
+  clock.tick(61 * 1000); // Expire the value from the 1m window
+
+  const lines = toPrometheus(sm, { percentiles: [50] }).split("\n");
+  t.deepEqual(lines.slice(0, 7), [
+    '# HELP jobs Rolling distribution of "jobs" values per time window.',
+    "# TYPE jobs summary",
+    'jobs_sum{window="1m"} 0',
+    'jobs_count{window="1m"} 0',
+    'jobs{window="5m",quantile="0.5"} 7',
+    'jobs_sum{window="5m"} 7',
+    'jobs_count{window="5m"} 1',
+  ]);
+  t.false(lines.some((line) => line.includes('_average{window="1m"}')));
+  t.true(lines.includes('jobs_average{window="5m"} 7'));
+});
+
+test("exports series as histograms when buckets are given", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  sm.record("latency", 3, { route: "/a" });
+  sm.record("latency", 12, { route: "/a" });
+  sm.record("latency", 7, { route: "/b" });
+
+  const lines = toPrometheus(sm, { buckets: [5, 10] }).split("\n");
+
+  t.deepEqual(lines.slice(0, 12), [
+    '# HELP latency Rolling distribution of "latency" values per time window.',
+    "# TYPE latency histogram",
+    'latency_bucket{route="/a",window="1m",le="5"} 1',
+    'latency_bucket{route="/a",window="1m",le="10"} 1',
+    'latency_bucket{route="/a",window="1m",le="+Inf"} 2',
+    'latency_sum{route="/a",window="1m"} 15',
+    'latency_count{route="/a",window="1m"} 2',
+    'latency_bucket{route="/b",window="1m",le="5"} 0',
+    'latency_bucket{route="/b",window="1m",le="10"} 1',
+    'latency_bucket{route="/b",window="1m",le="+Inf"} 1',
+    'latency_sum{route="/b",window="1m"} 7',
+    'latency_count{route="/b",window="1m"} 1',
+  ]);
+  t.false(lines.some((line) => line.includes("quantile")));
+});
@@ -0,0 +1,82 @@
+import test from "ava";
+import sinon from "sinon";
+import { SnapMetrics } from "../src/index.js";
+
+let clock: sinon.SinonFakeTimers;
+test.before((t) => {
+  clock = sinon.useFakeTimers();
+});
+
+test.after((t) => {
+  clock.restore();
+});
+
+test("calculates rates over the full window duration", (t) => {
+  const sm = new SnapMetrics(["1m", "5m"]);
+
+  for (let i = 0; i < 30; i++) sm.record("requests", i);
+  sm.increment("bytes_sent", 600);
+
+  t.deepEqual(sm.getRates("requests"), { "1m": 0.5, "5m": 0.1 });
+  t.deepEqual(sm.getRates(), { "1m": 0, "5m": 0 });
+  t.deepEqual(sm.getCounterRates("bytes_sent"), { "1m": 10, "5m": 2 });
+  t.deepEqual(sm.getCounterRates("missing"), { "1m": null, "5m": null });
+});
+
+test("calculates rates over the elapsed part of the window", (t) => {
+  const sm = new SnapMetrics({
+    timeWindows: ["1m", "5m"],
+    rateMode: "elapsed",
+  });
+
+  t.deepEqual(sm.getRates(), { "1m": null, "5m": null }); // No time has elapsed yet
+
+  for (let i = 0; i < 30; i++) sm.record(i);
+  sm.increment("api_calls", 30);
+  clock.tick(30 * 1000);
+
+  t.deepEqual(sm.getRates(), { "1m": 1, "5m": 1 });
+  t.deepEqual(sm.getCounterRates("api_calls"), { "1m": 1, "5m": 1 });
+
+  clock.tick(60 * 1000);
+  t.deepEqual(sm.getRates(), { "1m": 0, "5m": 30 / 90 });
+});
+
+test("filters counter rates by labels", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  sm.increment("api_calls", 30, { status: "200" });
+  sm.increment("api_calls", 6, { status: "500" });
+
+  t.deepEqual(sm.getCounterRates("api_calls"), { "1m": 0.6 });
+  t.deepEqual(sm.getCounterRates("api_calls", { status: "500" }), {
+    "1m": 0.1,
+  });
+});
+
+test("includes rates in metrics", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  [1, 2, 3].forEach((v) => sm.record(v));
+
+  t.is(sm.getMetrics()["1m"]!["rate"], 3 / 60);
+});
+
+test("keeps the elapsed time of restored snapshots", (t) => {
+  const sm = new SnapMetrics({ timeWindows: ["1m"], rateMode: "elapsed" });
+
+  for (let i = 0; i < 20; i++) sm.record(i);
+  clock.tick(20 * 1000);
+
+  const restored = SnapMetrics.fromSnapshot(sm.toSnapshot(), {
+    rateMode: "elapsed",
+  });
+  t.deepEqual(restored.getRates(), { "1m": 1 });
+});
+
+test("throws an error for an invalid rate mode", (t) => {
+  const error = t.throws(
+    () => new SnapMetrics({ rateMode: "average" as "window" })
+  );
+  t.is(error.message, "Invalid rate mode: average");
+});
@@ -0,0 +1,106 @@
+import test from "ava";
+import sinon from "sinon";
+import { SnapMetrics } from "../src/index.js";
+
+let clock: sinon.SinonFakeTimers;
+test.before((t) => {
+  clock = sinon.useFakeTimers();
+});
+
+test.after((t) => {
+  clock.restore();
+});
+
+test("records named series independently", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  sm.record("db_latency", 10);
+  sm.record("db_latency", 20);
+  sm.record("payload_size", 512);
+
+  t.deepEqual(sm.getCounts("db_latency"), { "1m": 2 });
+  t.deepEqual(sm.getAverages("db_latency"), { "1m": 15 });
+  t.deepEqual(sm.getSums("payload_size"), { "1m": 512 });
+  t.deepEqual(sm.getMaximums("payload_size"), { "1m": 512 });
+});
+
+test("keeps the default series separate from named series", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  sm.record(1);
+  sm.record("db_latency", 100);
+
+  t.deepEqual(sm.getAverages(), { "1m": 1 });
+  t.deepEqual(sm.getAverages("db_latency"), { "1m": 100 });
+});
+
+test("returns empty results for unknown series", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  sm.record("db_latency", 10);
+
+  t.deepEqual(sm.getCounts("unknown"), { "1m": 0 });
+  t.deepEqual(sm.getAverages("unknown"), { "1m": null });
+  t.deepEqual(sm.getPercentiles(95, "unknown"), { "1m": null });
+});
+
+test("getMetrics returns stats for the requested series", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  [1, 2, 3, 4, 5].forEach((v) => sm.record("db_latency", v));
+  sm.record(1000);
+
+  t.deepEqual(sm.getMetrics({ series: "db_latency" }), {
+    "1m": {
+      count: 5,
+      rate: 5 / 60,
+      sum: 15,
+      average: 3,
+      median: 3,
+      percentile90: 4.6,
+      percentile95: 4.8,
+      minimum: 1,
+      maximum: 5,
+      standardDeviation: Math.sqrt(2),
+      variance: 2,
+      coefficientOfVariation: Math.sqrt(2) / 3,
+      skewness: 0,
+      kurtosis: -1.3,
+    },
+  });
+});
+
+test("lists active series per window", (t) => {
+  const sm = new SnapMetrics(["1m", "5m"]);
+
+  sm.record("db_latency", 10);
+  clock.tick(30 * 1000);
+  sm.record("db_latency", 20);
+  sm.record("queue_depth", 3);
+  clock.tick(31 * 1000);
+
+  t.deepEqual(sm.getSeries(), {
+    "1m": { db_latency: 1, queue_depth: 1 },
+    "5m": { db_latency: 2, queue_depth: 1 },
+  });
+
+  clock.tick(60 * 1000);
+
+  t.deepEqual(sm.getSeries(), {
+    "1m": {}, // All series expired
+    "5m": { db_latency: 2, queue_depth: 1 },
+  });
+});
+
+test("records durations into a named series", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  const result = sm.recordDuration("work", () => {
+    clock.tick(25);
+    return "done";
+  });
+
+  t.is(result, "done");
+  t.deepEqual(sm.getAverages("work"), { "1m": 25 });
+  t.deepEqual(sm.getCounts(), { "1m": 0 });
+});
@@ -0,0 +1,262 @@
+import test from "ava";
+import sinon from "sinon";
+import { SnapMetrics, type Snapshot } from "../src/index.js";
+
+let clock: sinon.SinonFakeTimers;
+test.before((t) => {
+  clock = sinon.useFakeTimers();
+});
+
+test.after((t) => {
+  clock.restore();
+});
+
+// Simulates storing a snapshot on disk
+const roundTrip = (snapshot: Snapshot): Snapshot =>
+  JSON.parse(JSON.stringify(snapshot));
+
+test("restores values, series and counters", (t) => {
+  const sm = new SnapMetrics(["1m", "5m"]);
+
+  [1, 2, 3].forEach((v) => sm.record(v));
+  sm.record("latency", 10, { route: "/a" });
+  sm.increment("api_calls", 1, { status: "200" });
+  sm.increment("api_calls", 1, { status: "500" });
+
+  const restored = SnapMetrics.fromSnapshot(roundTrip(sm.toSnapshot()));
+
+  t.deepEqual(restored.getMetrics(), sm.getMetrics());
+  t.deepEqual(
+    restored.getMetrics({ series: "latency", labels: { route: "/a" } }),
+    sm.getMetrics({ series: "latency", labels: { route: "/a" } })
+  );
+  t.deepEqual(restored.getCounters(), {
+    "1m": { api_calls: 2 },
+    "5m": { api_calls: 2 },
+  });
+  t.deepEqual(restored.getCounter("api_calls", { status: "500" }), {
+    "1m": 1,
+    "5m": 1,
+  });
+});
+
+test("re-bases timestamps and expires old values on load", (t) => {
+  const sm = new SnapMetrics(["1m", "5m"]);
+
+  sm.record(100);
+  sm.increment("restarts");
+  clock.tick(40 * 1000);
+  sm.record(200);
+
+  const snapshot = roundTrip(sm.toSnapshot());
+  clock.tick(30 * 1000); // Downtime while restarting
+
+  const restored = SnapMetrics.fromSnapshot(snapshot);
+
+  t.deepEqual(restored.getCounts(), { "1m": 1, "5m": 2 });
+  t.deepEqual(restored.getSums(), { "1m": 200, "5m": 300 });
+  t.deepEqual(restored.getCounter("restarts"), { "1m": null, "5m": 1 });
+
+  // The remaining value expires from "1m" once it is a minute old
+  clock.tick(30 * 1000 + 1);
+  t.deepEqual(restored.getCounts(), { "1m": 0, "5m": 2 });
+});
+
+test("ages are relative to the wall clock time of the snapshot", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  sm.record(1);
+
+  // A snapshot taken by another process two minutes ago
+  const snapshot = roundTrip(sm.toSnapshot());
+  snapshot.createdAt -= 2 * 60 * 1000;
+
+  const restored = SnapMetrics.fromSnapshot(snapshot);
+  t.deepEqual(restored.getCounts(), { "1m": 0 });
+});
+
+test("restores the options of the snapshot", (t) => {
+  const sm = new SnapMetrics({
+    timeWindows: ["10s", "1m"],
+    storage: "bucketed",
+    bucketDurationMS: 500,
+  });
+
+  for (let i = 1; i <= 100; i++) {
+    sm.record(i);
+    clock.tick(100);
+  }
+
+  const snapshot = roundTrip(sm.toSnapshot());
+  t.is(snapshot.version, 1);
+  t.deepEqual(snapshot.options, {
+    timeWindows: ["10s", "1m"],
+    storage: "bucketed",
+    bucketDurationMS: 500,
+    quantiles: "exact",
+    relativeAccuracy: 0.01,
+  });
+
+  const restored = SnapMetrics.fromSnapshot(snapshot);
+  t.deepEqual(restored.getMetrics(), sm.getMetrics());
+
+  clock.tick(5 * 1000);
+  t.deepEqual(restored.getCounts(), sm.getCounts());
+  t.deepEqual(restored.getMinimums(), sm.getMinimums());
+});
+
+test("restores approximate quantiles", (t) => {
+  const sm = new SnapMetrics({ timeWindows: ["1m"], quantiles: "approximate" });
+
+  for (let i = 1; i <= 100; i++) sm.record(i);
+
+  const restored = SnapMetrics.fromSnapshot(roundTrip(sm.toSnapshot()));
+  t.deepEqual(restored.getPercentiles(90), sm.getPercentiles(90));
+});
+
+test("throws an error for unsupported snapshots", (t) => {
+  const error1 = t.throws(() =>
+    SnapMetrics.fromSnapshot({ version: 2 } as unknown as Snapshot)
+  );
+  t.is(error1.message, "Unsupported snapshot version: 2");
+
+  const error2 = t.throws(() =>
+    SnapMetrics.fromSnapshot(null as unknown as Snapshot)
+  );
+  t.is(error2.message, "Invalid snapshot");
+
+  const snapshot = roundTrip(new SnapMetrics(["1m"]).toSnapshot());
+  const error3 = t.throws(() =>
+    SnapMetrics.fromSnapshot({
+      ...snapshot,
+      counters: [{ name: "api_calls", labels: {}, events: [[1]] }],
+    } as unknown as Snapshot)
+  );
+  t.is(error3.message, "Invalid snapshot counters");
+
+  const error4 = t.throws(() =>
+    SnapMetrics.fromSnapshot({
+      ...snapshot,
+      series: [{ series: "default", labels: {}, data: {} }],
+    } as unknown as Snapshot)
+  );
+  t.is(error4.message, "Invalid snapshot series");
+
+  const { options, ...withoutOptions } = snapshot;
+  const error5 = t.throws(() =>
+    SnapMetrics.fromSnapshot(withoutOptions as unknown as Snapshot)
+  );
+  t.is(error5.message, "Invalid snapshot options");
+
+  const error6 = t.throws(() =>
+    SnapMetrics.fromSnapshot({
+      ...snapshot,
+      gauges: [{ name: "queue_depth", labels: {} }],
+    } as unknown as Snapshot)
+  );
+  t.is(error6.message, "Invalid snapshot gauges");
+});
+
+test("restores gauges and takes deltas of their changes", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  const aggregated = new SnapMetrics(["1m"]);
+
+  sm.set("queue_depth", 10, { queue: "emails" });
+  clock.tick(1000);
+  const first = sm.toSnapshot({ since: -Infinity });
+  sm.set("queue_depth", 30, { queue: "emails" });
+  clock.tick(1000);
+  const second = sm.toSnapshot({ since: first.cursor });
+  const third = sm.toSnapshot({ since: second.cursor });
+
+  t.deepEqual(second.gauges, [
+    { name: "queue_depth", labels: { queue: "emails" }, changes: [[1000, 30]] },
+  ]);
+  t.deepEqual(third.gauges, []);
+
+  const restored = SnapMetrics.fromSnapshot(roundTrip(sm.toSnapshot()));
+  [first, second, third].forEach((delta) => aggregated.merge(delta));
+  for (const metrics of [restored, aggregated]) {
+    t.deepEqual(metrics.getGauges(), sm.getGauges());
+    t.deepEqual(
+      metrics.getGauge("queue_depth", { queue: "emails" }),
+      sm.getGauge("queue_depth", { queue: "emails" })
+    );
+  }
+});
+
+test("writes the counter events once for all time windows", (t) => {
+  const sm = new SnapMetrics(["1m", "5m"]);
+  sm.increment("api_calls", 2);
+
+  const snapshot = roundTrip(sm.toSnapshot());
+  t.deepEqual(snapshot.counters, [
+    { name: "api_calls", labels: {}, events: [[0, 2]] },
+  ]);
+
+  // Events of a delta are read back from the newest, and still listed oldest first
+  clock.tick(1);
+  const { cursor } = sm.toSnapshot({ since: -Infinity });
+  clock.tick(1);
+  sm.increment("api_calls");
+  clock.tick(1);
+  sm.increment("errors");
+  clock.tick(1);
+  sm.increment("api_calls", 3);
+  clock.tick(1);
+  t.deepEqual(sm.toSnapshot({ since: cursor }).counters, [
+    { name: "api_calls", labels: {}, events: [[3, 1], [1, 3]] },
+    { name: "errors", labels: {}, events: [[2, 1]] },
+  ]);
+});
+
+test("takes deltas of what was recorded since a cursor", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  const aggregated = new SnapMetrics(["1m"]);
+
+  sm.record(1);
+  sm.increment("api_calls", 2);
+  clock.tick(1);
+  const first = sm.toSnapshot({ since: -Infinity });
+  sm.record(2);
+  sm.record(3);
+  sm.increment("api_calls");
+  clock.tick(1);
+  const second = sm.toSnapshot({ since: first.cursor });
+  const third = sm.toSnapshot({ since: second.cursor });
+
+  t.is(typeof first.cursor, "number");
+  t.deepEqual(second.series[0]!.data, {
+    values: [
+      [1, 2],
+      [1, 3],
+    ],
+  });
+  t.deepEqual(second.counters[0]!.events, [[1, 1]]);
+  t.deepEqual(third.series[0]!.data, { values: [] });
+  t.deepEqual(third.counters, []);
+
+  [first, second, third].forEach((delta) => aggregated.merge(delta));
+  t.deepEqual(aggregated.getMetrics(), sm.getMetrics());
+  t.deepEqual(aggregated.getCounters(), { "1m": { api_calls: 3 } });
+});
+
+test("ends bucketed deltas at the last completed time slice", (t) => {
+  const sm = new SnapMetrics({ timeWindows: ["1m"], storage: "bucketed" });
+  const aggregated = new SnapMetrics({
+    timeWindows: ["1m"],
+    storage: "bucketed",
+  });
+  clock.tick(1000 - (Date.now() % 1000)); // Start of a time slice
+
+  sm.record(1);
+  clock.tick(500);
+  const first = sm.toSnapshot({ since: -Infinity });
+  aggregated.merge(first);
+  t.deepEqual(aggregated.getCounts(), { "1m": 0 }); // The current slice is still open
+
+  sm.record(2);
+  clock.tick(500);
+  aggregated.merge(sm.toSnapshot({ since: first.cursor }));
+  t.deepEqual(aggregated.getCounts(), { "1m": 2 });
+  t.deepEqual(aggregated.getSums(), { "1m": 3 });
+});
@@ -75,6 +75,7 @@ test("handles empty windows for all stats", (t) => {
   t.deepEqual(sm.getMetrics(), {
     "1m": {
       count: 0,
+      rate: 0,
       sum: null,
       average: null,
       median: null,
@@ -83,6 +84,10 @@ test("handles empty windows for all stats", (t) => {
       minimum: null,
       maximum: null,
       standardDeviation: null,
+      variance: null,
+      coefficientOfVariation: null,
+      skewness: null,
+      kurtosis: null,
     },
   });
 });
@@ -105,6 +110,7 @@ test("handles multiple time windows for all stats", (t) => {
   t.deepEqual(sm.getMetrics(), {
     "1m": {
       count: 5,
+      rate: 5 / 60,
       sum: 15,
       average: 3,
       median: 3,
@@ -113,6 +119,10 @@ test("handles multiple time windows for all stats", (t) => {
       minimum: 1,
       maximum: 5,
       standardDeviation: Math.sqrt(2),
+      variance: 2,
+      coefficientOfVariation: Math.sqrt(2) / 3,
+      skewness: 0,
+      kurtosis: -1.3,
     },
   });
 });
@@ -137,6 +147,7 @@ test("getMetrics returns all stats", (t) => {
   t.deepEqual(metrics, {
     "1m": {
       count: 5,
+      rate: 5 / 60,
       sum: 15,
       average: 3,
       median: 3,
@@ -146,6 +157,169 @@ test("getMetrics returns all stats", (t) => {
       minimum: 1,
       maximum: 5,
       standardDeviation: Math.sqrt(2),
+      variance: 2,
+      coefficientOfVariation: Math.sqrt(2) / 3,
+      skewness: 0,
+      kurtosis: -1.3,
     },
   });
 });
+
+test("calculates variances, coefficients of variation, skewnesses and kurtoses", (t) => {
+  const round = (stats: Record<string, number | null>) =>
+    Math.round(stats["1m"]! * 10_000) / 10_000;
+
+  const population = new SnapMetrics(["1m"]);
+  const sample = new SnapMetrics({ timeWindows: ["1m"], variance: "sample" });
+  [1, 1, 1, 10].forEach((v) => {
+    population.record(v);
+    sample.record(v);
+  });
+
+  t.deepEqual(population.getVariances(), { "1m": 15.1875 });
+  t.is(round(population.getCoefficientsOfVariation()), 1.1991);
+  t.is(round(population.getSkewnesses()), 1.1547);
+  t.is(round(population.getKurtoses()), -0.6667);
+
+  t.deepEqual(sample.getVariances(), { "1m": 20.25 });
+  t.is(round(sample.getStandardDeviations()), 4.5);
+  t.is(round(sample.getCoefficientsOfVariation()), 1.3846);
+  t.is(round(sample.getSkewnesses()), 2);
+  t.is(round(sample.getKurtoses()), 4);
+
+  // Too few or equal values
+  const single = new SnapMetrics({ timeWindows: ["1m"], variance: "sample" });
+  single.record(5);
+  t.deepEqual(single.getVariances(), { "1m": null });
+  const equal = new SnapMetrics(["1m"]);
+  [3, 3, 3].forEach((v) => equal.record(v));
+  t.deepEqual(equal.getVariances(), { "1m": 0 });
+  t.deepEqual(equal.getSkewnesses(), { "1m": null });
+  t.deepEqual(equal.getKurtoses(), { "1m": null });
+});
+
+test("keeps running moments while values are recorded and expire", (t) => {
+  let now = 0;
+  const clock = () => now;
+  const exact = new SnapMetrics({
+    timeWindows: ["10s"],
+    clock,
+    removeExpiredRecordsThrottlingMS: false,
+  });
+  const bucketed = new SnapMetrics({
+    timeWindows: ["10s"],
+    storage: "bucketed",
+    clock,
+    removeExpiredRecordsThrottlingMS: false,
+  });
+  const recorded: { timestamp: number; value: number }[] = [];
+
+  let seed = 3;
+  for (let i = 0; i < 3000; i++) {
+    seed = (seed * 16807) % 2147483647;
+    const value = 100 + Math.pow(seed / 2147483647, 3) * 50; // Skewed to the right
+    const labels = { shard: String(i % 3) };
+    exact.record(value, labels);
+    bucketed.record(value, labels);
+    recorded.push({ timestamp: now, value });
+    now += 10;
+  }
+
+  // Bucketed windows include the whole slice they start in
+  const expected = (start: number) => {
+    const values = recorded
+      .filter(({ timestamp }) => timestamp >= start)
+      .map(({ value }) => value);
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    const moment = (power: number) =>
+      values.reduce((a, b) => a + Math.pow(b - mean, power), 0) / values.length;
+    return {
+      variance: moment(2),
+      skewness: moment(3) / Math.pow(moment(2), 1.5),
+      kurtosis: moment(4) / Math.pow(moment(2), 2) - 3,
+    };
+  };
+
+  for (const [sm, start] of [
+    [exact, now - 10_000],
+    [bucketed, Math.floor((now - 10_000) / 1000) * 1000],
+  ] as const) {
+    const { variance, skewness, kurtosis } = expected(start);
+    const actual = sm.getMetrics()["10s"]!;
+    t.true(Math.abs(actual["variance"]! - variance) < 1e-6 * variance);
+    t.true(Math.abs(actual["skewness"]! - skewness) < 1e-6);
+    t.true(Math.abs(actual["kurtosis"]! - kurtosis) < 1e-6);
+  }
+});
+
+test("throws an error for an invalid variance mode", (t) => {
+  const error = t.throws(
+    () => new SnapMetrics({ variance: "unbiased" as "sample" })
+  );
+  t.is(error.message, "Invalid variance mode: unbiased");
+});
+
+test("calculates robust statistics that outliers barely affect", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  [10, 12, 11, 13, 30000].forEach((v) => sm.record(v));
+
+  t.deepEqual(sm.getInterquartileRanges(), { "1m": 2 });
+  t.deepEqual(sm.getMedianAbsoluteDeviations(), { "1m": 1 });
+  t.deepEqual(sm.getTrimmedMeans(20), { "1m": 12 });
+  t.deepEqual(sm.getTrimmedMeans(0), { "1m": 6009.2 });
+  t.deepEqual(sm.getWinsorizedMeans(20), { "1m": 12 });
+  t.is(Math.round(sm.getGeometricMeans()["1m"]! * 100) / 100, 55.25);
+  t.is(Math.round(sm.getHarmonicMeans()["1m"]! * 100) / 100, 14.24);
+
+  // Too few values to drop any at 10%
+  t.deepEqual(sm.getTrimmedMeans(10), { "1m": 6009.2 });
+
+  sm.record(-1);
+  t.deepEqual(sm.getGeometricMeans(), { "1m": null });
+  t.deepEqual(sm.getHarmonicMeans(), { "1m": null });
+
+  const error = t.throws(() => sm.getTrimmedMeans(50));
+  t.is(error.message, "Trim must be between 0 and 50");
+});
+
+test("calculates median absolute deviations around values equal to the median", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  [1, 2, 2, 2, 3, 9, 14].forEach((v) => sm.record(v));
+  t.deepEqual(sm.getMedianAbsoluteDeviations(), { "1m": 1 });
+
+  sm.record(4);
+  // Median 2.5, deviations 1.5, 0.5, 0.5, 0.5, 0.5, 1.5, 6.5, 11.5
+  t.deepEqual(sm.getMedianAbsoluteDeviations(), { "1m": 1 });
+});
+
+test("includes robust statistics in getMetrics when requested", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  [1, 2, 3, 4, 5, 6, 7, 8, 9, 100].forEach((v) => sm.record(v));
+
+  t.like(
+    sm.getMetrics({
+      robust: ["interquartileRange", "trimmedMean", "winsorizedMean"],
+    })["1m"],
+    { interquartileRange: 4.5, trimmedMean: 5.5, winsorizedMean: 5.5 }
+  );
+  t.like(sm.getMetrics({ robust: ["trimmedMean"], trim: 20 })["1m"], {
+    trimmedMean: 5.5,
+  });
+  t.false("trimmedMean" in sm.getMetrics()["1m"]!);
+
+  // Bucketed storage does not keep the values
+  const bucketed = new SnapMetrics({
+    timeWindows: ["1m"],
+    storage: "bucketed",
+  });
+  [1, 2, 3].forEach((v) => bucketed.record(v));
+  t.like(
+    bucketed.getMetrics({
+      robust: ["medianAbsoluteDeviation", "geometricMean"],
+    })["1m"],
+    { medianAbsoluteDeviation: null, geometricMean: null }
+  );
+});
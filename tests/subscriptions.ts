@@ -0,0 +1,128 @@
+import test from "ava";
+import sinon from "sinon";
+import { SnapMetrics, type MetricsSnapshot } from "../src/index.js";
+
+let clock: sinon.SinonFakeTimers;
+test.before((t) => {
+  clock = sinon.useFakeTimers();
+});
+
+test.after((t) => {
+  clock.restore();
+});
+
+test("delivers metrics and counters at every interval", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  const snapshots: MetricsSnapshot[] = [];
+
+  const subscription = sm.subscribe(
+    { intervalMS: 1000, percentiles: [99] },
+    (snapshot) => snapshots.push(snapshot)
+  );
+
+  sm.record(10);
+  sm.record(20);
+  sm.increment("api_calls");
+  clock.tick(999);
+  t.is(snapshots.length, 0);
+
+  clock.tick(1);
+  t.is(snapshots.length, 1);
+  t.is(snapshots[0]!.timestamp, Date.now());
+  t.is(snapshots[0]!.metrics["1m"]!["average"], 15);
+  t.true("percentile99" in snapshots[0]!.metrics["1m"]!);
+  t.false("percentile90" in snapshots[0]!.metrics["1m"]!);
+  t.deepEqual(snapshots[0]!.counters, { "1m": { api_calls: 1 } });
+
+  sm.record(30);
+  clock.tick(1000);
+  t.is(snapshots.length, 2);
+  t.is(snapshots[1]!.metrics["1m"]!["count"], 3);
+
+  subscription.unsubscribe();
+  clock.tick(5000);
+  t.is(snapshots.length, 2);
+});
+
+test("computes each tick once for subscriptions sharing an interval", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  const getMetrics = sinon.spy(sm, "getMetrics");
+  const getCounters = sinon.spy(sm, "getCounters");
+  const received: MetricsSnapshot[] = [];
+
+  const subscriptions = [
+    sm.subscribe({ intervalMS: 1000 }, (s) => received.push(s)),
+    sm.subscribe({ intervalMS: 1000 }, (s) => received.push(s)),
+    sm.subscribe({ intervalMS: 1000, series: "latency" }, (s) =>
+      received.push(s)
+    ),
+  ];
+
+  sm.record(5);
+  sm.record("latency", 50);
+  clock.tick(1000);
+
+  t.is(received.length, 3);
+  t.is(received[0], received[1]); // Same options share the same snapshot
+  t.is(received[2]!.metrics["1m"]!["average"], 50);
+  t.is(received[2]!.counters, received[0]!.counters);
+  t.is(received[2]!.timestamp, received[0]!.timestamp);
+  t.is(getMetrics.callCount, 2);
+  t.is(getCounters.callCount, 1);
+
+  subscriptions.forEach((s) => s.unsubscribe());
+  clock.tick(1000);
+  t.is(received.length, 3);
+  t.is(clock.countTimers(), 0);
+});
+
+test("keeps calling other listeners when one throws", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  const errors: unknown[] = [];
+  let calls = 0;
+
+  const subscriptions = [
+    sm.subscribe({ onError: (error) => errors.push(error) }, () => {
+      throw new Error("Sink failed");
+    }),
+    sm.subscribe({}, () => calls++),
+  ];
+
+  clock.tick(1000);
+  t.is(errors.length, 1);
+  t.is((errors[0] as Error).message, "Sink failed");
+  t.is(calls, 1);
+
+  subscriptions.forEach((s) => s.unsubscribe());
+});
+
+test("emits listener errors as process warnings without an error handler", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  const emitWarning = sinon.stub(process, "emitWarning");
+
+  const subscription = sm.subscribe({}, () => {
+    throw new Error("Sink failed");
+  });
+  try {
+    t.notThrows(() => clock.tick(1000));
+  } finally {
+    emitWarning.restore();
+    subscription.unsubscribe();
+  }
+  t.is(emitWarning.callCount, 1);
+  t.is((emitWarning.firstCall.args[0] as Error).message, "Sink failed");
+});
+
+test("throws an error for an invalid interval", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  const error = t.throws(() => sm.subscribe({ intervalMS: 0 }, () => {}));
+  t.is(error.message, "Interval must be a positive number");
+});
+
+test("throws an error for invalid percentiles when subscribing", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  const error = t.throws(() => sm.subscribe({ percentiles: [101] }, () => {}));
+  t.is(error.message, "Percentile must be between 0 and 100");
+});
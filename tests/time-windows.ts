@@ -88,6 +88,56 @@ test("handles multiple time windows independently", (t) => {
   });
 });
 
+test("shares values and counter events between many time windows", (t) => {
+  const timeWindows = ["10s", "30s", "1m", "5m", "15m", "1h", "6h", "24h"];
+  const sm = new SnapMetrics(timeWindows);
+  const record = (value: number) => {
+    sm.record(value);
+    sm.increment("api_calls", value);
+  };
+
+  // Recorded 7h, 2h, 20m, 3m, 40s, 20s and 5s ago
+  record(1);
+  clock.tick(5 * 60 * 60 * 1000);
+  record(2);
+  clock.tick(100 * 60 * 1000);
+  record(3);
+  clock.tick(17 * 60 * 1000);
+  record(4);
+  clock.tick(140 * 1000);
+  record(5);
+  clock.tick(20 * 1000);
+  record(6);
+  clock.tick(15 * 1000);
+  record(7);
+  clock.tick(5 * 1000);
+
+  const counts = [1, 2, 3, 4, 4, 5, 6, 7];
+  const sums = [7, 13, 18, 22, 22, 25, 27, 28];
+  t.deepEqual(
+    sm.getCounts(),
+    Object.fromEntries(timeWindows.map((key, i) => [key, counts[i]]))
+  );
+  t.deepEqual(
+    sm.getSums(),
+    Object.fromEntries(timeWindows.map((key, i) => [key, sums[i]]))
+  );
+  t.deepEqual(
+    sm.getCounter("api_calls"),
+    Object.fromEntries(timeWindows.map((key, i) => [key, sums[i]]))
+  );
+
+  clock.tick(24 * 60 * 60 * 1000);
+  t.deepEqual(
+    sm.getCounter("api_calls"),
+    Object.fromEntries(timeWindows.map((key) => [key, null]))
+  );
+  t.deepEqual(
+    sm.getCounts(),
+    Object.fromEntries(timeWindows.map((key) => [key, 0]))
+  );
+});
+
 test("returns null for empty windows", (t) => {
   const sm = new SnapMetrics(["1m", "5m"]);
 
@@ -229,3 +279,112 @@ test.serial(
     t.is(removeExpiredRecordsSpy.callCount, 5);
   }
 );
+
+test("adds a time window backfilled from the existing windows", (t) => {
+  const sm = new SnapMetrics({
+    timeWindows: ["1m", "5m"],
+    removeExpiredRecordsThrottlingMS: false,
+  });
+
+  sm.record(10);
+  sm.increment("bytes_sent", 100);
+  sm.set("queue_depth", 4);
+  clock.tick(45 * 1000);
+  sm.record(20);
+  sm.increment("bytes_sent", 50);
+  clock.tick(1000);
+
+  t.true(sm.addTimeWindow("30s"));
+  t.deepEqual(sm.getCounts(), { "1m": 2, "5m": 2, "30s": 1 });
+  t.deepEqual(sm.getAverages(), { "1m": 15, "5m": 15, "30s": 20 });
+  t.deepEqual(sm.getCounterDetails("bytes_sent")["30s"], {
+    events: 1,
+    total: 50,
+  });
+  t.like(sm.getGauge("queue_depth")["30s"], { latest: 4, average: 4 });
+
+  // The new window expires values like the others
+  clock.tick(30 * 1000);
+  t.deepEqual(sm.getCounts(), { "1m": 1, "5m": 2, "30s": 0 });
+  sm.record(30);
+  t.deepEqual(sm.getMaximums(), { "1m": 30, "5m": 30, "30s": 30 });
+});
+
+test("reports partial backfill for windows longer than the existing ones", (t) => {
+  const sm = new SnapMetrics({
+    timeWindows: ["1m"],
+    removeExpiredRecordsThrottlingMS: false,
+  });
+
+  t.true(sm.addTimeWindow("5m")); // Nothing expired yet
+
+  sm.record(1);
+  clock.tick(11 * 60 * 1000);
+  sm.record(2);
+
+  t.false(sm.addTimeWindow("15m"));
+  t.deepEqual(sm.getCounts(), { "1m": 1, "5m": 1, "15m": 1 });
+
+  clock.tick(61 * 1000);
+  sm.record(3);
+  t.deepEqual(sm.getCounts(), { "1m": 1, "5m": 2, "15m": 2 });
+});
+
+test("adds time windows to bucketed storage", (t) => {
+  const sm = new SnapMetrics({
+    timeWindows: ["10s"],
+    storage: "bucketed",
+    removeExpiredRecordsThrottlingMS: false,
+  });
+
+  sm.record(5);
+  clock.tick(15 * 1000);
+  sm.record(7);
+
+  t.true(sm.addTimeWindow("2s"));
+  t.false(sm.addTimeWindow("1m"));
+  t.deepEqual(sm.getCounts(), { "10s": 1, "2s": 1, "1m": 1 });
+
+  // The ring grew to hold a minute of slices
+  for (let i = 0; i < 50; i++) {
+    clock.tick(1000);
+    sm.record(i);
+  }
+  // Windows include the slice they start in
+  t.deepEqual(sm.getCounts(), { "10s": 11, "2s": 3, "1m": 51 });
+  t.is(sm.getMinimums()["1m"], 0);
+});
+
+test("removes a time window", (t) => {
+  const sm = new SnapMetrics({
+    timeWindows: ["1m", "5m"],
+    removeExpiredRecordsThrottlingMS: false,
+  });
+
+  sm.record(1);
+  sm.increment("api_calls");
+  sm.removeTimeWindow("5m");
+
+  t.deepEqual(sm.getCounts(), { "1m": 1 });
+  t.deepEqual(sm.getCounters(), { "1m": { api_calls: 1 } });
+  t.deepEqual(sm.toSnapshot().options.timeWindows, ["1m"]);
+
+  clock.tick(61 * 1000);
+  t.deepEqual(sm.getSeries(), { "1m": {} });
+});
+
+test("throws an error for invalid runtime time window changes", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+
+  const error1 = t.throws(() => sm.addTimeWindow("1x" as "1m"));
+  t.is(error1.message, "Invalid time window format: 1x");
+
+  const error2 = t.throws(() => sm.addTimeWindow("1m"));
+  t.is(error2.message, "Time window already exists: 1m");
+
+  const error3 = t.throws(() => sm.removeTimeWindow("5m"));
+  t.is(error3.message, "Unknown time window: 5m");
+
+  const error4 = t.throws(() => sm.removeTimeWindow("1m"));
+  t.is(error4.message, "Cannot remove the last time window");
+});
@@ -0,0 +1,244 @@
+import test from "ava";
+import sinon from "sinon";
+import { SnapMetrics, type WatchEvent } from "../src/index.js";
+
+let clock: sinon.SinonFakeTimers;
+test.before((t) => {
+  clock = sinon.useFakeTimers();
+});
+
+test.after((t) => {
+  clock.restore();
+});
+
+const createHandler = () => {
+  const events: string[] = [];
+  return {
+    events,
+    handler: {
+      onTrigger: ({ value }: WatchEvent) => events.push(`trigger ${value}`),
+      onResolve: ({ value }: WatchEvent) => events.push(`resolve ${value}`),
+    },
+  };
+};
+
+test("triggers and resolves when a stat crosses a threshold", (t) => {
+  const sm = new SnapMetrics(["10s"]);
+  const { events, handler } = createHandler();
+
+  const watch = sm.watch(
+    { stat: "average", window: "10s", above: 100 },
+    handler
+  );
+
+  sm.record(50);
+  clock.tick(1000);
+  t.deepEqual(events, []);
+
+  sm.record(350); // Average 200
+  clock.tick(1000);
+  t.deepEqual(events, ["trigger 200"]);
+  t.true(watch.triggered);
+
+  clock.tick(5000); // Still above, no repeated trigger
+  t.deepEqual(events, ["trigger 200"]);
+
+  clock.tick(10000); // The window empties
+  t.deepEqual(events, ["trigger 200", "resolve null"]);
+  t.false(watch.triggered);
+
+  watch.stop();
+});
+
+test("waits for the minimum duration before triggering", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  const { events, handler } = createHandler();
+
+  const watch = sm.watch(
+    { stat: "percentile95", window: "1m", above: 500, for: "5s" },
+    handler
+  );
+
+  sm.record(1000);
+  clock.tick(1000); // Crossed
+  clock.tick(3000);
+  t.deepEqual(events, []);
+
+  clock.tick(2000);
+  t.deepEqual(events, ["trigger 1000"]);
+
+  watch.stop();
+});
+
+test("resets the minimum duration when the stat recovers in between", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  const { events, handler } = createHandler();
+
+  const watch = sm.watch(
+    { stat: "maximum", window: "1m", below: 10, for: "3s" },
+    handler
+  );
+
+  sm.record(5);
+  clock.tick(2000);
+  sm.record(20); // Maximum back above the threshold
+  clock.tick(1000);
+  clock.tick(3000);
+  t.deepEqual(events, []);
+
+  watch.stop();
+});
+
+test("uses hysteresis so a stat hovering at the threshold does not flap", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  const { events, handler } = createHandler();
+
+  const watch = sm.watch(
+    { stat: "average", window: "1m", above: 10, hysteresis: 5 },
+    handler
+  );
+
+  sm.record(12);
+  clock.tick(1000);
+  t.deepEqual(events, ["trigger 12"]);
+
+  sm.record(6); // Average 9, below the threshold but within the hysteresis
+  clock.tick(1000);
+  t.deepEqual(events, ["trigger 12"]);
+  t.true(watch.triggered);
+
+  sm.record(2);
+  sm.record(0); // Average 5
+  clock.tick(1000);
+  t.deepEqual(events, ["trigger 12", "resolve 5"]);
+
+  watch.stop();
+});
+
+test("watches counter rates with labels", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  const { events, handler } = createHandler();
+
+  const watch = sm.watch(
+    {
+      stat: "counterRate",
+      counter: "api_calls",
+      labels: { status: "500" },
+      window: "1m",
+      above: 1,
+    },
+    handler
+  );
+
+  sm.increment("api_calls", 120, { status: "200" });
+  sm.increment("api_calls", 90, { status: "500" });
+  clock.tick(1000);
+  t.deepEqual(events, ["trigger 1.5"]);
+
+  watch.stop();
+});
+
+test("reads empty counters as zero so below rules trigger when traffic stops", (t) => {
+  const sm = new SnapMetrics(["10s"]);
+  const { events, handler } = createHandler();
+
+  const watch = sm.watch(
+    { stat: "counter", counter: "api_calls", window: "10s", below: 5 },
+    handler
+  );
+  const rateWatch = sm.watch(
+    { stat: "counterRate", counter: "api_calls", window: "10s", below: 0.5 },
+    handler
+  );
+
+  sm.increment("api_calls", 10);
+  clock.tick(1000);
+  t.deepEqual(events, []);
+
+  clock.tick(10_000); // No more calls
+  t.deepEqual(events, ["trigger 0", "trigger 0"]);
+  t.true(watch.triggered);
+  t.true(rateWatch.triggered);
+
+  watch.stop();
+  rateWatch.stop();
+});
+
+test("stops checking a stopped watch", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  const { events, handler } = createHandler();
+
+  const watch = sm.watch(
+    { stat: "count", window: "1m", above: 0, intervalMS: 100 },
+    handler
+  );
+  watch.stop();
+
+  sm.record(1);
+  clock.tick(1000);
+  t.deepEqual(events, []);
+});
+
+test("reports errors thrown by handlers instead of throwing from the timer", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  const errors: unknown[] = [];
+
+  const watch = sm.watch(
+    { stat: "count", window: "1m", above: 0 },
+    {
+      onTrigger: () => {
+        throw new Error("Alert failed");
+      },
+      onError: (error) => errors.push(error),
+    }
+  );
+
+  sm.record(1);
+  t.notThrows(() => clock.tick(1000));
+  t.is(errors.length, 1);
+  t.is((errors[0] as Error).message, "Alert failed");
+  t.true(watch.triggered);
+
+  clock.tick(1000); // Triggers once, so the handler is not called again
+  t.is(errors.length, 1);
+
+  watch.stop();
+});
+
+test("throws an error for invalid rules", (t) => {
+  const sm = new SnapMetrics(["1m"]);
+  const handler = {};
+
+  const error1 = t.throws(() =>
+    sm.watch({ stat: "average", window: "1m" }, handler)
+  );
+  t.is(error1.message, "Watch rule needs an above or below threshold");
+
+  const error2 = t.throws(() =>
+    sm.watch({ stat: "average", window: "5m", above: 1 }, handler)
+  );
+  t.is(error2.message, "Unknown time window: 5m");
+
+  const error3 = t.throws(() =>
+    sm.watch({ stat: "mode", window: "1m", above: 1 }, handler)
+  );
+  t.is(error3.message, "Unknown stat: mode");
+
+  const error4 = t.throws(() =>
+    sm.watch({ stat: "counter", window: "1m", above: 1 }, handler)
+  );
+  t.is(error4.message, "Stat counter needs a counter name");
+
+  const error5 = t.throws(() =>
+    sm.watch({ stat: "percentile101", window: "1m", above: 1 }, handler)
+  );
+  t.is(error5.message, "Percentile must be between 0 and 100");
+
+  const error6 = t.throws(() =>
+    sm.watch(
+      { stat: "average", window: "1m", above: 1, hysteresis: -1 },
+      handler
+    )
+  );
+  t.is(error6.message, "Hysteresis must be a non-negative number");
+});